@@ -1,13 +1,44 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import FocusTrap from 'focus-trap-react';
-import { GithubRepo, View, AnalysisResult } from './types';
+import { GithubRepo, View, AnalysisResult, RepoAffiliation, RepoFetchProgress, LocalScanProgress, RepoSource, RepoForensics, ArchiveOutcome, PublishableMetadata, FiledIssue, TechSignature, TokenDiagnostics, RepoCapability, DeletionAuditEntry, DeletionTrigger, QuarantineEntry, RepoRegistryEntry } from './types';
 import { GithubService } from './services/githubService';
 import { LocalFileSystemService } from './services/localFileSystemService';
+import { CommitForensicsService } from './services/commitForensicsService';
+import { ManifestService } from './services/manifestService';
+import { BranchInventoryService, MAX_BRANCHES } from './services/branchInventoryService';
+import { CiHealthService } from './services/ciHealthService';
+import { CloneSyncService } from './services/cloneSyncService';
 import { analyzeRepository, summarizeInventory } from './services/geminiService';
 import { migrateCacheIfNeeded } from './lib/cache';
+import { pruneNoiseEntries, summarizeFileTree } from './lib/fileTree';
+import { githubScheduler, RateLimitSnapshot } from './lib/githubScheduler';
+import { clearResponseCache } from './lib/githubResponseCache';
+import { getLastActivityDate, getDaysSinceActivity } from './lib/repoActivity';
+import { getLanguageShares, getSignificantLanguages } from './lib/languages';
+import { formatDependencies } from './lib/techSignature';
+import { computeCodeMetrics, toRemoteSourceFiles } from './lib/codeMetrics';
+import { getForensics, updateForensics, isForensicsStale } from './lib/forensicsCache';
+import { loadSavedSources, saveSources, createSource, formatSourceLabel, buildSourceList, PRIMARY_SOURCE_ID } from './lib/sources';
+import { DEFAULT_API_BASE_URL, namespaceRepoId, normalizeApiBaseUrl } from './lib/githubHosts';
+import { loadArchiveOutcomes, recordArchiveOutcomes, isArchiveRecommended, findRegistryRepo } from './lib/archiveOutcomes';
+import { buildMetadataProposal, getChangedFields, getCurrentMetadata } from './lib/metadataProposal';
+import { buildIssueDrafts, IssueDraft, FINDING_KIND_LABELS } from './lib/issueDrafts';
+import { buildDeletionBackup, getArchiveFileName, getBackupFileName, loadDeletionAudit, recordDeletions } from './lib/deletionAudit';
+import { addToQuarantine, getQuarantineDaysLeft, isQuarantineComplete, loadQuarantine, releaseUnarchived, saveQuarantine, QUARANTINE_DAYS } from './lib/deletionQuarantine';
+import { DEFAULT_UNMERGED_AGE_DAYS, getBranchAgeDays, getBranchUrl, getForgottenBranches, getUnmergedBranches } from './lib/branches';
+import { CiFilter, matchesCiFilter } from './lib/ciHealth';
+import { ForkFilter, isForkCleanupCandidate, matchesForkFilter } from './lib/forks';
+import { CLONE_SYNC_LABELS, findLinkedRepo, getOfflineCloneSync, mergeLocalClones } from './lib/localClones';
+import { disambiguateLocalRepos, loadLocalRepos, moveRepoEntries, saveLocalRepos } from './lib/localRepos';
+import { DEFAULT_SCAN_EXCLUSIONS, DEFAULT_SCAN_MAX_DEPTH } from './lib/ignorePatterns';
+import { CAPABILITY_LABELS, getCapabilityBlocker, isTokenExpired, loadTokenDiagnostics, saveTokenDiagnostics } from './lib/tokenCapabilities';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ConfirmModal } from './components/ConfirmModal';
+import { Sparkline } from './components/Sparkline';
+import { ArchiveReviewModal, ArchiveCandidate } from './components/ArchiveReviewModal';
+import { PublishMetadataModal, MetadataPublishEntry, MetadataPublishOutcome } from './components/PublishMetadataModal';
+import { FileIssuesModal, IssueFilingOutcome } from './components/FileIssuesModal';
 
 // Reusable Components
 const NavItem: React.FC<{ active: boolean; label: string; onClick: () => void; icon: React.ReactNode }> = ({ active, label, onClick, icon }) => (
@@ -21,9 +52,58 @@ const NavItem: React.FC<{ active: boolean; label: string; onClick: () => void; i
   </button>
 );
 
-type SortOption = 'updated-desc' | 'updated-asc' | 'name-asc' | 'name-desc' | 'language';
+const formatClockTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const downloadJsonFile = (fileName: string, data: unknown) => {
+  downloadBlob(fileName, new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+};
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Repos without a known activity date sort as the oldest
+const activityTime = (repo: GithubRepo) => new Date(getLastActivityDate(repo) || 0).getTime();
+
+const createSourceService = (source: RepoSource) => new GithubService(source.token, source.apiBaseUrl, source.graphqlUrl);
+
+type ConnectionTestState = { status: 'testing' | 'ok' | 'error'; message: string };
+
+// Local scans carry their signature on the repo; GitHub repos get theirs from the manifest fetch
+const getTechSignature = (repo: GithubRepo): TechSignature | undefined =>
+  repo.techSignature || getForensics(repo.id).techSignature;
+
+// Dependencies per scope group sent to the portfolio strategy, to keep the prompt small
+const MAX_SUMMARY_DEPENDENCIES = 15;
+
+// Compare a fork with its upstream unless a fresh comparison is cached
+const collectForkDivergence = async (repo: GithubRepo, service: GithubService): Promise<RepoForensics> => {
+  const forensics = getForensics(repo.id);
+  if (!repo.fork || !repo.parent || !isForensicsStale(forensics.forkDivergence?.collectedAt)) return forensics;
+  try {
+    const forkDivergence = await service.fetchForkDivergence(repo.full_name, repo.default_branch, repo.parent);
+    return updateForensics(repo.id, { forkDivergence });
+  } catch (err) {
+    console.warn(`Fork comparison unavailable for ${repo.name}:`, err);
+    return forensics;
+  }
+};
+
+type SortOption = 'updated-desc' | 'updated-asc' | 'name-asc' | 'name-desc' | 'language' | 'stars-desc';
 type VisibilityFilter = 'all' | 'private' | 'public';
 
+const AFFILIATION_OPTIONS: { value: RepoAffiliation; label: string }[] = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'collaborator', label: 'Collaborator' },
+  { value: 'organization_member', label: 'Organization member' }
+];
+
 const App: React.FC = () => {
   const [view, setView] = useState<View>(View.DASHBOARD);
   const [githubToken, setGithubToken] = useState<string>(localStorage.getItem('gh_token') || '');
@@ -36,10 +116,33 @@ const App: React.FC = () => {
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncProgress, setSyncProgress] = useState({ current: 0, total: 0, currentName: '' });
   const [syncLimit, setSyncLimit] = useState<number>(Number(localStorage.getItem('sync_limit')) || 20);
-  const [localRepos, setLocalRepos] = useState<GithubRepo[]>(() => {
-    const saved = localStorage.getItem('local_repos');
-    return saved ? JSON.parse(saved) : [];
+  // Local scan exclusions (one .gitignore-style pattern per line) and folder depth
+  const [scanExclusions, setScanExclusions] = useState<string>(localStorage.getItem('scan_exclusions') ?? DEFAULT_SCAN_EXCLUSIONS.join('\n'));
+  const [scanMaxDepth, setScanMaxDepth] = useState<number>(Number(localStorage.getItem('scan_max_depth')) || DEFAULT_SCAN_MAX_DEPTH);
+  const [localScan, setLocalScan] = useState<LocalScanProgress | null>(null);
+  const localScanAbort = useRef<AbortController | null>(null);
+  const [affiliation, setAffiliation] = useState<RepoAffiliation[]>(() => {
+    const saved = localStorage.getItem('gh_affiliation');
+    return saved ? saved.split(',') as RepoAffiliation[] : ['owner'];
   });
+  const [repoLoadProgress, setRepoLoadProgress] = useState<(RepoFetchProgress & { sourceLabel: string }) | null>(null);
+  const [extraSources, setExtraSources] = useState<RepoSource[]>(() => loadSavedSources());
+  const [sourceDrafts, setSourceDrafts] = useState<RepoSource[]>(extraSources);
+  // Saved (normalized) Enterprise Server endpoints of the primary account, and their Settings drafts
+  const [apiBaseUrl, setApiBaseUrl] = useState<string>(localStorage.getItem('gh_api_base_url') || '');
+  const [graphqlUrl, setGraphqlUrl] = useState<string>(localStorage.getItem('gh_graphql_url') || '');
+  const [apiBaseUrlDraft, setApiBaseUrlDraft] = useState<string>(apiBaseUrl);
+  const [graphqlUrlDraft, setGraphqlUrlDraft] = useState<string>(graphqlUrl);
+  const [connectionTests, setConnectionTests] = useState<Record<string, ConnectionTestState>>({});
+  // Last token check per source ID, and errors from checks that could not complete
+  const [tokenDiagnostics, setTokenDiagnostics] = useState<Record<string, TokenDiagnostics>>(() => loadTokenDiagnostics());
+  const [tokenCheckErrors, setTokenCheckErrors] = useState<Record<string, string>>({});
+  const [rateLimit, setRateLimit] = useState<RateLimitSnapshot | null>(null);
+  const [forensicsRevision, setForensicsRevision] = useState(0);
+  const [forensicsById, setForensicsById] = useState<Map<number, RepoForensics>>(new Map());
+  const [localRepos, setLocalRepos] = useState<GithubRepo[]>(() => loadLocalRepos());
+  // GitHub and local repos as one list, with each local clone folded into the GitHub repo it was cloned from
+  const allRepos = useMemo(() => mergeLocalClones(repos, localRepos), [repos, localRepos]);
   const [inventoryAnalysis, setInventoryAnalysis] = useState<any>(() => {
     const saved = localStorage.getItem('inventory_analysis');
     return saved ? JSON.parse(saved) : null;
@@ -227,7 +330,18 @@ const App: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('updated-desc');
   const [filterLang, setFilterLang] = useState<string>('All');
+  const [filterTopic, setFilterTopic] = useState<string>('All');
   const [filterVisibility, setFilterVisibility] = useState<VisibilityFilter>('all');
+  const [filterSource, setFilterSource] = useState<string>('All');
+  const [filterFork, setFilterFork] = useState<ForkFilter>('all');
+  const [filterCi, setFilterCi] = useState<CiFilter>('all');
+  const [unmergedAgeDays, setUnmergedAgeDays] = useState<number>(() => {
+    // 0 is a valid saved value (every unmerged branch counts), so only a missing or garbled one falls back
+    const saved = localStorage.getItem('unmerged_age_days');
+    const days = saved === null ? NaN : parseInt(saved, 10);
+    return Number.isNaN(days) ? DEFAULT_UNMERGED_AGE_DAYS : days;
+  });
+  const [branchScan, setBranchScan] = useState<{ current: number; total: number; currentName: string } | null>(null);
 
   const [analysis, setAnalysis] = useState<AnalysisResult>({
     projectPulse: '',
@@ -241,6 +355,22 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [savingSettings, setSavingSettings] = useState(false);
   const [deletingRepoId, setDeletingRepoId] = useState<number | null>(null);
+  const [archivingRepoId, setArchivingRepoId] = useState<number | null>(null);
+  const [archiveOutcomes, setArchiveOutcomes] = useState<Record<number, ArchiveOutcome>>(() => loadArchiveOutcomes());
+  const [deletionAudit, setDeletionAudit] = useState<DeletionAuditEntry[]>(() => loadDeletionAudit());
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>(() => loadQuarantine());
+  const [confirmPurgeOpen, setConfirmPurgeOpen] = useState(false);
+  const [archiveCandidates, setArchiveCandidates] = useState<ArchiveCandidate[] | null>(null);
+  const [archiveRunOutcomes, setArchiveRunOutcomes] = useState<Record<number, ArchiveOutcome>>({});
+  const [isBulkArchiving, setIsBulkArchiving] = useState(false);
+  const [publishEntries, setPublishEntries] = useState<MetadataPublishEntry[] | null>(null);
+  const [preparingPublish, setPreparingPublish] = useState(false); // Pages URLs are being looked up
+  const [publishOutcomes, setPublishOutcomes] = useState<Record<number, MetadataPublishOutcome>>({});
+  const [publishingRepoId, setPublishingRepoId] = useState<number | null>(null);
+  const [issueDrafts, setIssueDrafts] = useState<IssueDraft[] | null>(null);
+  const [issueOutcomes, setIssueOutcomes] = useState<Record<string, IssueFilingOutcome>>({});
+  const [filingDraftId, setFilingDraftId] = useState<string | null>(null);
+  const [loadingIssueDrafts, setLoadingIssueDrafts] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
   // Initialize cache migration on app load
@@ -248,6 +378,9 @@ const App: React.FC = () => {
     migrateCacheIfNeeded();
   }, []);
 
+  // Mirror the shared GitHub quota into the header bar
+  useEffect(() => githubScheduler.subscribe(setRateLimit), []);
+
   // ESC key handler for modal
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -267,9 +400,74 @@ const App: React.FC = () => {
     }
   }, [toast]);
 
-  const syncRepositories = useCallback(async (token: string, repoList: GithubRepo[]) => {
+  const sources = useMemo(
+    () => buildSourceList(username, githubToken, extraSources, apiBaseUrl, graphqlUrl),
+    [username, githubToken, extraSources, apiBaseUrl, graphqlUrl]
+  );
+  // Organization sources carry their own tokens, so the primary token is not required
+  const hasSourceToken = sources.some(source => source.token);
+
+  // Actions on a repo must use the token of the source it was loaded from
+  const serviceForRepo = useCallback((repo: GithubRepo) => {
+    const source = sources.find(s => s.id === repo.sourceId);
+    return source ? createSourceService(source) : new GithubService(githubToken);
+  }, [sources, githubToken]);
+
+  // Reason an action is unavailable for a repo because of its source token, or null if it may work
+  const capabilityBlocker = (repo: GithubRepo, capability: RepoCapability) =>
+    repo.isLocal ? null : getCapabilityBlocker(tokenDiagnostics[repo.sourceId || PRIMARY_SOURCE_ID], capability);
+
+  // Collect hard data for a GitHub repo, reusing sections that are still fresh
+  const collectRepoForensics = useCallback(async (repo: GithubRepo): Promise<RepoForensics> => {
+    let forensics = getForensics(repo.id);
+    if (repo.isLocal) return forensics;
+    const service = serviceForRepo(repo);
+
+    if (isForensicsStale(forensics.commitActivity?.collectedAt)) {
+      try {
+        const commitActivity = await new CommitForensicsService(service).collect(repo);
+        forensics = updateForensics(repo.id, { commitActivity });
+      } catch (err) {
+        console.warn(`Commit activity unavailable for ${repo.name}:`, err);
+      }
+    }
+
+    if (isForensicsStale(forensics.issueHealth?.collectedAt)) {
+      try {
+        const issueHealth = await service.fetchIssueHealth(repo.full_name);
+        forensics = updateForensics(repo.id, { issueHealth });
+      } catch (err) {
+        console.warn(`Issue health unavailable for ${repo.name}:`, err);
+      }
+    }
+
+    if (isForensicsStale(forensics.ciHealth?.collectedAt)) {
+      try {
+        const ciHealth = await new CiHealthService(service).collect(repo);
+        forensics = updateForensics(repo.id, { ciHealth });
+      } catch (err) {
+        console.warn(`CI health unavailable for ${repo.name}:`, err);
+      }
+    }
+
+    forensics = await collectForkDivergence(repo, service);
+
+    // Cached per commit: a conditional SHA lookup decides whether manifests are read again
+    try {
+      const techSignature = await new ManifestService(service).collect(repo, forensics.techSignature);
+      if (techSignature && techSignature !== forensics.techSignature) {
+        forensics = updateForensics(repo.id, { techSignature });
+      }
+    } catch (err) {
+      console.warn(`Manifests unavailable for ${repo.name}:`, err);
+    }
+
+    setForensicsRevision(rev => rev + 1);
+    return forensics;
+  }, [serviceForRepo]);
+
+  const syncRepositories = useCallback(async (repoList: GithubRepo[]) => {
     setIsSyncing(true);
-    const service = new GithubService(token);
     let completed = 0;
     const limitedRepos = repoList.slice(0, syncLimit);
 
@@ -278,10 +476,12 @@ const App: React.FC = () => {
       const cacheKey = `analysis_${repo.id}`;
       const cached = localStorage.getItem(cacheKey);
 
+      const forensics = await collectRepoForensics(repo);
+
       if (!cached) {
         try {
-          const readme = await service.fetchRepoReadme(repo.full_name);
-          const result = await analyzeRepository(repo, readme, 'superficial');
+          const readme = await serviceForRepo(repo).fetchRepoReadme(repo.full_name);
+          const result = await analyzeRepository(repo, readme, 'superficial', undefined, forensics);
           const finalAnalysis: AnalysisResult = {
             ...result,
             status: 'success',
@@ -297,53 +497,152 @@ const App: React.FC = () => {
     }
     setIsSyncing(false);
     setToast({ message: 'All repositories synchronized and analyzed', type: 'success' });
+  }, [syncLimit, serviceForRepo, collectRepoForensics]);
+
+  // Fill push dates, stars, topics, licenses and language bytes through batched GraphQL queries
+  const enrichRepoMetadata = useCallback(async (repoList: GithubRepo[], sourceList: RepoSource[]) => {
+    for (const source of sourceList) {
+      const sourceRepos = repoList.filter(r => r.sourceId === source.id);
+      if (sourceRepos.length === 0) continue;
+      const service = createSourceService(source);
+      try {
+        const metadata = await service.fetchRepoMetadataBulk(sourceRepos.map(r => r.full_name));
+        setRepos(prev => prev.map(r => {
+          const extra = r.sourceId === source.id ? metadata.get(r.full_name) : undefined;
+          return extra ? { ...r, ...extra } : r;
+        }));
+
+        // The parent is only known now, so every fork gets its upstream comparison here rather than in the limited sync
+        for (const repo of sourceRepos) {
+          const extra = metadata.get(repo.full_name);
+          if (extra?.fork) await collectForkDivergence({ ...repo, ...extra }, service);
+        }
+        setForensicsRevision(rev => rev + 1);
+      } catch (metaErr) {
+        console.warn(`Bulk metadata fetch failed for ${formatSourceLabel(source)}:`, metaErr);
+      }
+    }
   }, []);
 
-  const fetchRepos = useCallback(async (shouldSync = false) => {
-    if (!githubToken) return;
+  const fetchRepos = useCallback(async (shouldSync = false, sourceList: RepoSource[] = sources) => {
+    if (!sourceList.some(source => source.token)) return;
     setLoading(true);
     setError(null);
+    setRepoLoadProgress(null);
     try {
-      const service = new GithubService(githubToken);
-      const data = await service.fetchUserRepos();
+      // Merge every source into one list; a repo reachable from several sources keeps the first one
+      const merged = new Map<number, GithubRepo>();
+      const failures: { sourceLabel: string; message: string }[] = [];
+
+      for (const source of sourceList) {
+        const sourceLabel = formatSourceLabel(source);
+        const onProgress = (progress: RepoFetchProgress) => setRepoLoadProgress({ ...progress, sourceLabel });
+        try {
+          const service = createSourceService(source);
+          const sourceRepos = source.kind === 'org'
+            ? await service.fetchOrgRepos(source.login, onProgress)
+            : await service.fetchUserRepos({ affiliation, onProgress });
+          // IDs are only unique per host; Enterprise Server repos move into their own ID range
+          sourceRepos.forEach(r => {
+            const id = namespaceRepoId(r.id, source.apiBaseUrl);
+            if (!merged.has(id)) merged.set(id, { ...r, id, sourceId: source.id });
+          });
+        } catch (sourceErr: unknown) {
+          failures.push({ sourceLabel, message: sourceErr instanceof Error ? sourceErr.message : 'Failed to fetch repositories' });
+        }
+      }
+
+      const failureSummary = failures.map(f => `${f.sourceLabel}: ${f.message}`).join('; ');
+      if (failures.length === sourceList.length) {
+        throw new Error(failures.length === 1 ? failures[0].message : failureSummary);
+      }
+
+      const data = Array.from(merged.values());
       setRepos(data);
+      enrichRepoMetadata(data, sourceList);
       if (shouldSync || localStorage.getItem('last_sync_count') !== data.length.toString()) {
         localStorage.setItem('last_sync_count', data.length.toString());
-        syncRepositories(githubToken, data);
+        syncRepositories(data);
+      }
+      if (failures.length > 0) {
+        setToast({ message: `Loaded ${data.length} repositories. Failed sources: ${failureSummary}`, type: 'error' });
+      } else {
+        setToast({ message: `Loaded ${data.length} repositories`, type: 'success' });
       }
-      setToast({ message: `Loaded ${data.length} repositories`, type: 'success' });
     } catch (err: unknown) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to fetch repositories';
       setError(errorMsg);
       setToast({ message: errorMsg, type: 'error' });
     } finally {
       setLoading(false);
+      setRepoLoadProgress(null);
     }
-  }, [githubToken, syncRepositories]);
+  }, [sources, affiliation, syncRepositories, enrichRepoMetadata]);
 
   useEffect(() => {
-    if (githubToken && username && repos.length === 0) {
+    if (hasSourceToken && repos.length === 0) {
       fetchRepos();
     }
-  }, [fetchRepos, githubToken, username, repos.length]);
+  }, [fetchRepos, hasSourceToken, repos.length]);
+
+  // A quarantined repo that was unarchived on GitHub itself leaves the queue as well
+  useEffect(() => {
+    if (repos.length === 0) return;
+    const queue = loadQuarantine();
+    const kept = releaseUnarchived(queue, repos);
+    if (kept.length !== queue.length) setQuarantine(saveQuarantine(kept));
+  }, [repos]);
 
   const handleScanLocal = async () => {
     setLoading(true);
+    const abort = new AbortController();
+    localScanAbort.current = abort;
     try {
       const service = new LocalFileSystemService();
-      const newRepos = await service.selectAndScan();
-      const updatedLocal = [...localRepos, ...newRepos];
-      // Use a Map to deduplicate by full_name
-      const uniqueLocal = Array.from(new Map(updatedLocal.map(r => [r.full_name, r])).values());
+      const scanned = await service.selectAndScan({
+        exclusions: scanExclusions.split('\n'),
+        maxDepth: scanMaxDepth,
+        onProgress: setLocalScan,
+        signal: abort.signal,
+      });
+      setLocalScan(null);
+
+      // Compare each clone with the GitHub repo its remotes point at; a cancelled scan makes no requests
+      const newRepos: GithubRepo[] = [];
+      for (const repo of scanned) {
+        const linked = findLinkedRepo(repo.localGit, repos);
+        let cloneSync = getOfflineCloneSync(repo.localGit);
+        if (linked && repo.localGit && !abort.signal.aborted) {
+          try {
+            cloneSync = await new CloneSyncService(serviceForRepo(linked)).check(repo.localGit, linked);
+          } catch (err) {
+            console.warn(`Could not compare ${repo.full_name} with ${linked.full_name}:`, err);
+          }
+        }
+        newRepos.push({ ...repo, cloneSync });
+      }
+
+      // IDs are stable per repo, so a re-scan replaces the earlier entry. A folder whose ID changed
+      // (e.g. it gained a remote) takes its cached analysis along.
+      const kept = localRepos.filter(old => {
+        const rescanned = newRepos.find(r => r.id === old.id || r.localPath === old.localPath);
+        if (rescanned && rescanned.id !== old.id) moveRepoEntries(old.id, rescanned.id);
+        return !rescanned;
+      });
+      const uniqueLocal = disambiguateLocalRepos([...newRepos, ...kept]);
 
       setLocalRepos(uniqueLocal);
-      localStorage.setItem('local_repos', JSON.stringify(uniqueLocal));
-      setToast({ message: `Found ${newRepos.length} local repositories`, type: 'success' });
+      saveLocalRepos(uniqueLocal);
+      const linkedCount = newRepos.filter(r => findLinkedRepo(r.localGit, repos)).length;
+      const found = `${newRepos.length} local repositories${linkedCount ? `, ${linkedCount} linked to GitHub` : ''}`;
+      setToast({ message: abort.signal.aborted ? `Scan cancelled; kept ${found}` : `Found ${found}`, type: 'success' });
     } catch (err: any) {
       if (err.name !== 'AbortError') {
         setToast({ message: `Scan failed: ${err.message || 'Unknown error'}`, type: 'error' });
       }
     } finally {
+      localScanAbort.current = null;
+      setLocalScan(null);
       setLoading(false);
     }
   };
@@ -351,28 +650,68 @@ const App: React.FC = () => {
   const handleSummarizeInventory = async () => {
     setIsSummarizing(true);
     try {
-      const allRepos = [...repos, ...localRepos];
+      // Forks go to the AI separately, with only their own commits, so upstream work is not credited to the portfolio
+      const forkSummaries = allRepos.filter(r => r.fork).map(r => {
+        const divergence = getForensics(r.id).forkDivergence;
+        return {
+          name: r.name,
+          upstream: r.parent?.full_name || 'unknown',
+          uniqueCommits: divergence?.aheadBy ?? null,
+          behindBy: divergence?.behindBy ?? null,
+          daysSinceUpdate: getDaysSinceActivity(r)
+        };
+      });
 
       // Enrich the data sent to AI with cached analysis if it exists
-      const enrichedSummaries = allRepos.map(r => {
+      const enrichedSummaries = allRepos.filter(r => !r.fork).map(r => {
         const cached = localStorage.getItem(`analysis_${r.id}`);
         const parsed = cached ? JSON.parse(cached) : null;
 
-        // Calculate days since last update for accurate "Stalled" detection
-        const daysSinceUpdate = Math.floor((new Date().getTime() - new Date(r.updated_at).getTime()) / (1000 * 3600 * 24));
+        // Days since the last commit/push (not metadata edits) for accurate "Stalled" detection
+        const daysSinceUpdate = getDaysSinceActivity(r);
 
         return {
           name: r.name,
+          fullName: r.full_name,
           language: r.language,
+          languages: getLanguageShares(r.languages),
           description: r.description,
           daysSinceUpdate: daysSinceUpdate,
-          // @ts-ignore - techSignature exists on local repos now
-          techSignature: r.techSignature || { detectedFiles: [], dependencies: [] },
+          stars: r.stargazers_count ?? 0,
+          forks: r.forks_count ?? 0,
+          topics: r.topics || [],
+          license: r.license?.spdx_id || null,
+          commitActivity: (() => {
+            const activity = getForensics(r.id).commitActivity;
+            return activity ? {
+              ...(activity.commitsLastYear !== null ? { commitsLastYear: activity.commitsLastYear } : {}),
+              ...(activity.activeWeeksLastYear !== null ? { activeWeeksLastYear: activity.activeWeeksLastYear } : {}),
+              contributors: activity.contributorCount,
+              lastCommitAuthor: activity.lastCommitAuthor
+            } : null;
+          })(),
+          openIssues: getForensics(r.id).issueHealth?.openIssues ?? null,
+          openPullRequests: getForensics(r.id).issueHealth?.openPullRequests ?? null,
+          localCommitsLast90Days: r.localGit?.recentCommits,
+          ci: (() => {
+            const ci = getForensics(r.id).ciHealth;
+            return ci ? { hasCi: ci.workflows.some(w => w.state === 'active'), status: ci.status, workflows: ci.workflows.map(w => w.name) } : null;
+          })(),
+          techSignature: (() => {
+            const signature = getTechSignature(r);
+            return signature ? {
+              detectedFiles: signature.detectedFiles,
+              dependencies: formatDependencies(signature, MAX_SUMMARY_DEPENDENCIES),
+              buildSystem: signature.buildSystem,
+              hasDocker: signature.hasDocker,
+              baseImages: signature.baseImages
+            } : { detectedFiles: [], dependencies: [] };
+          })(),
           pulse: parsed?.projectPulse || 'No analysis available'
         };
       });
 
-      const result = await summarizeInventory(enrichedSummaries);
+      const result = await summarizeInventory(enrichedSummaries, forkSummaries);
       setInventoryAnalysis(result);
       localStorage.setItem('inventory_analysis', JSON.stringify(result));
       setView(View.INVENTORY);
@@ -384,12 +723,14 @@ const App: React.FC = () => {
   };
 
   const handleDeepSyncAll = async () => {
-    const allRepos = [...repos, ...localRepos];
     let processed = 0;
 
     setToast({ message: `Starting Deep Sync on ${allRepos.length} repositories...`, type: 'success' });
 
     for (const repo of allRepos) {
+      // Refresh measured data even for repos whose analysis is skipped below
+      const forensics = await collectRepoForensics(repo);
+
       // Cache Check: Don't re-analyze if we have data and the repo is old/stagnant
       const cacheKey = `analysis_${repo.id}`;
       const cachedRaw = localStorage.getItem(cacheKey);
@@ -408,21 +749,22 @@ const App: React.FC = () => {
         setToast({ message: `Analyzing ${repo.name} (${processed + 1}/${allRepos.length})...`, type: 'success' });
 
         // Fetch fresh README if possible
-        const service = new GithubService(githubToken);
         let readme = "";
         try {
-          if (!repo.isLocal) readme = await service.fetchRepoReadme(repo.full_name);
+          if (!repo.isLocal) readme = await serviceForRepo(repo).fetchRepoReadme(repo.full_name);
           else readme = repo.readme_content || "";
         } catch { readme = "No README"; }
 
         // Use 'superficial' level but with the NEW prompt that demands 10 points
-        const result = await analyzeRepository(repo, readme, 'superficial');
+        const result = await analyzeRepository(repo, readme, 'superficial', undefined, forensics);
 
+        const previous: AnalysisResult | null = cachedRaw ? JSON.parse(cachedRaw) : null;
         const finalAnalysis: AnalysisResult = {
           ...result,
           status: 'success',
           level: 'superficial',
-          fullReadme: readme
+          fullReadme: readme,
+          ...(previous?.filedIssues ? { filedIssues: previous.filedIssues } : {})
         };
 
         localStorage.setItem(cacheKey, JSON.stringify(finalAnalysis));
@@ -439,8 +781,6 @@ const App: React.FC = () => {
     setToast({ message: 'Generating Professional Portfolio...', type: 'success' });
 
     try {
-      const allRepos = [...repos, ...localRepos];
-
       // Gather all cached analyses
       const analyses = allRepos.map(r => {
         const cached = localStorage.getItem(`analysis_${r.id}`);
@@ -454,7 +794,7 @@ const App: React.FC = () => {
 
       // Call AI to generate resume portfolio
       const { generateResumePortfolio } = await import('./services/geminiService');
-      const portfolio = await generateResumePortfolio(allRepos, analyses);
+      const portfolio = await generateResumePortfolio(allRepos.map(r => ({ ...r, techSignature: getTechSignature(r) })), analyses);
 
       setPortfolioData(portfolio);
       setView(View.PORTFOLIO);
@@ -545,6 +885,23 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
     }
   };
 
+  // Read scopes, kind and expiry of every source token so unsupported actions can be disabled up front
+  const checkTokens = async (sourceList: RepoSource[]): Promise<Record<string, string>> => {
+    const diagnostics: Record<string, TokenDiagnostics> = {};
+    const errors: Record<string, string> = {};
+    await Promise.all(sourceList.map(async source => {
+      try {
+        diagnostics[source.id] = await createSourceService(source).fetchTokenDiagnostics();
+      } catch (err: unknown) {
+        errors[source.id] = err instanceof Error ? err.message : 'Token check failed';
+      }
+    }));
+    saveTokenDiagnostics(diagnostics);
+    setTokenDiagnostics(diagnostics);
+    setTokenCheckErrors(errors);
+    return errors;
+  };
+
   const handleSaveSettings = async (e: React.FormEvent) => {
     e.preventDefault();
     setSavingSettings(true);
@@ -552,9 +909,38 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
       localStorage.setItem('gh_token', githubToken);
       localStorage.setItem('gh_user', username);
       localStorage.setItem('sync_limit', syncLimit.toString());
+      localStorage.setItem('scan_exclusions', scanExclusions);
+      localStorage.setItem('scan_max_depth', scanMaxDepth.toString());
+      localStorage.setItem('gh_affiliation', affiliation.join(','));
+      const savedApiBaseUrl = normalizeApiBaseUrl(apiBaseUrlDraft) || '';
+      const savedGraphqlUrl = graphqlUrlDraft.trim().replace(/\/+$/, '');
+      localStorage.setItem('gh_api_base_url', savedApiBaseUrl);
+      localStorage.setItem('gh_graphql_url', savedGraphqlUrl);
+      setApiBaseUrl(savedApiBaseUrl);
+      setGraphqlUrl(savedGraphqlUrl);
+      setApiBaseUrlDraft(savedApiBaseUrl);
+      setGraphqlUrlDraft(savedGraphqlUrl);
+      const savedSources = saveSources(sourceDrafts);
+      setExtraSources(savedSources);
+      setSourceDrafts(savedSources);
+      const sourceList = buildSourceList(username, githubToken, savedSources, savedApiBaseUrl, savedGraphqlUrl);
+      // A failed diagnostics check is reported, but the dashboard is still refreshed with the new credentials
+      let tokenErrors: Record<string, string>;
+      try {
+        tokenErrors = await checkTokens(sourceList);
+      } catch (checkErr: unknown) {
+        const checkMsg = checkErr instanceof Error ? checkErr.message : 'Token check failed';
+        tokenErrors = Object.fromEntries(sourceList.map(s => [s.id, checkMsg]));
+        setTokenCheckErrors(tokenErrors);
+      }
       setView(View.DASHBOARD);
-      await fetchRepos();
-      setToast({ message: 'Settings saved successfully', type: 'success' });
+      await fetchRepos(false, sourceList);
+      const failedSource = sourceList.find(s => tokenErrors[s.id]);
+      if (failedSource) {
+        setToast({ message: `Settings saved, but the token for ${formatSourceLabel(failedSource)} failed its check: ${tokenErrors[failedSource.id]}`, type: 'error' });
+      } else {
+        setToast({ message: 'Settings saved successfully', type: 'success' });
+      }
     } catch (err: unknown) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to save settings';
       setToast({ message: errorMsg, type: 'error' });
@@ -563,6 +949,20 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
     }
   };
 
+  // Verify a source's host and token before saving, using the values currently typed in Settings
+  const handleTestConnection = async (testId: string, token: string, rawApiBaseUrl: string | undefined, rawGraphqlUrl: string | undefined) => {
+    setConnectionTests(prev => ({ ...prev, [testId]: { status: 'testing', message: 'Testing connection…' } }));
+    try {
+      const base = normalizeApiBaseUrl(rawApiBaseUrl);
+      const info = await new GithubService(token, base, rawGraphqlUrl?.trim() || undefined).testConnection();
+      const server = info.enterpriseVersion ? `GitHub Enterprise Server ${info.enterpriseVersion}` : info.host;
+      setConnectionTests(prev => ({ ...prev, [testId]: { status: 'ok', message: `Connected to ${server} as ${info.login}` } }));
+    } catch (err: unknown) {
+      const errorMsg = err instanceof Error ? err.message : 'Connection failed';
+      setConnectionTests(prev => ({ ...prev, [testId]: { status: 'error', message: errorMsg } }));
+    }
+  };
+
   const handleAnalyze = async (repo: GithubRepo, level: 'superficial' | 'detailed' = 'superficial') => {
     setSelectedRepo(repo);
     setModalTab('insights');
@@ -589,7 +989,7 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
     });
 
     try {
-      const service = new GithubService(githubToken);
+      const service = serviceForRepo(repo);
       let readme = cachedAnalysis?.fullReadme || "";
 
       if (!readme) {
@@ -604,19 +1004,30 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
       let fileTree = "";
       if (level === 'detailed') {
         setAnalysis(prev => ({ ...prev, status: 'fetching_readme' })); // Reuse for "scanning files"
-        const contents = await service.fetchRepoContents(repo.full_name);
-        fileTree = contents.map((f: any) => `${f.type === 'dir' ? '[DIR]' : '[FILE]'} ${f.path}`).join('\n');
+        const tree = await service.fetchRepoTree(repo.full_name, repo.default_branch);
+        const entries = pruneNoiseEntries(tree.entries);
+        fileTree = summarizeFileTree(entries);
+        // The listing has sizes but no contents, so remote metrics carry no line count
+        const rootNames = entries.filter(entry => !entry.path.includes('/')).map(entry => entry.path);
+        updateForensics(repo.id, { codeMetrics: computeCodeMetrics(toRemoteSourceFiles(entries), false, tree.truncated, rootNames) });
+        if (tree.truncated) {
+          fileTree += '\n[NOTE] Tree is incomplete: GitHub truncated the listing for this repository.';
+        }
       }
 
+      const forensics = await collectRepoForensics(repo);
+
       setAnalysis(prev => ({ ...prev, status: 'analyzing', fullReadme: readme }));
 
-      const result = await analyzeRepository(repo, readme, level, fileTree);
+      const result = await analyzeRepository(repo, readme, level, fileTree, forensics);
 
       const finalAnalysis: AnalysisResult = {
         ...result,
         status: 'success',
         level: level,
-        fullReadme: readme
+        fullReadme: readme,
+        // Issues already filed from earlier findings stay linked and keep new filings from duplicating them
+        ...(cachedAnalysis?.filedIssues ? { filedIssues: cachedAnalysis.filedIssues } : {})
       };
 
       // Caching: Save the final analysis to localStorage
@@ -637,36 +1048,362 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
     setRepoToDelete(repo);
   };
 
+  // Download a backup of everything cached about the repos, then back up each repo's code and delete it, logging every attempt
+  const deleteWithBackup = async (targets: GithubRepo[], trigger: DeletionTrigger): Promise<DeletionAuditEntry[]> => {
+    const startedAt = Date.now();
+    const backupFile = getBackupFileName(targets, startedAt);
+    const backups = targets.map(repo => {
+      const cachedRaw = localStorage.getItem(`analysis_${repo.id}`);
+      return buildDeletionBackup(repo, cachedRaw ? JSON.parse(cachedRaw) : null, getForensics(repo.id), getArchiveFileName(repo, startedAt));
+    });
+    downloadJsonFile(backupFile, backups.length === 1 ? backups[0] : backups);
+
+    const entries: DeletionAuditEntry[] = [];
+    for (const repo of targets) {
+      setDeletingRepoId(repo.id);
+      const entry: DeletionAuditEntry = { repoId: repo.id, fullName: repo.full_name, sourceId: repo.sourceId, trigger, status: 'deleted', backupFile, at: Date.now() };
+
+      // Without a saved copy of the code the repo is not deleted
+      try {
+        const archive = await serviceForRepo(repo).downloadZipball(repo.full_name, repo.default_branch);
+        downloadBlob(getArchiveFileName(repo, startedAt), archive);
+      } catch (err: unknown) {
+        entry.status = 'failed';
+        entry.error = `Not deleted: downloading the code backup failed (${err instanceof Error ? err.message : 'unknown error'})`;
+        entries.push(entry);
+        continue;
+      }
+
+      try {
+        await serviceForRepo(repo).deleteRepo(repo.full_name);
+        setRepos(prevRepos => prevRepos.filter(r => r.id !== repo.id));
+      } catch (err: unknown) {
+        entry.status = 'failed';
+        entry.error = err instanceof Error ? err.message : 'Failed to delete repository';
+      }
+      entries.push(entry);
+    }
+    setDeletingRepoId(null);
+
+    setDeletionAudit(recordDeletions(entries));
+    const deletedIds = new Set(entries.filter(e => e.status === 'deleted').map(e => e.repoId));
+    setQuarantine(saveQuarantine(loadQuarantine().filter(e => !deletedIds.has(e.repoId))));
+    return entries;
+  };
+
   const confirmDeleteRepo = async () => {
     if (!repoToDelete) return;
     const repo = repoToDelete;
-    setDeletingRepoId(repo.id);
-    try {
-      const service = new GithubService(githubToken);
-      await service.deleteRepo(repo.full_name);
-      setRepos(prevRepos => prevRepos.filter(r => r.id !== repo.id));
-      setToast({ message: `Repository "${repo.name}" deleted successfully`, type: 'success' });
+    const [entry] = await deleteWithBackup([repo], 'manual');
+    if (entry.status === 'deleted') {
+      setToast({ message: `Repository "${repo.name}" deleted. Backup saved as ${entry.backupFile}`, type: 'success' });
       setRepoToDelete(null);
+    } else {
+      setError(entry.error!);
+      setToast({ message: entry.error!, type: 'error' });
+    }
+  };
+
+  // Archive the repo now and queue it for deletion once it has stayed archived for the quarantine period
+  const quarantineRepo = async (repo: GithubRepo) => {
+    if (!repo.archived) {
+      setArchivingRepoId(repo.id);
+      const outcome = await archiveRepo(repo, true);
+      setArchiveOutcomes(recordArchiveOutcomes([outcome]));
+      setArchivingRepoId(null);
+      if (outcome.status === 'failed') {
+        setToast({ message: outcome.error!, type: 'error' });
+        return;
+      }
+    }
+    setQuarantine(saveQuarantine(addToQuarantine(loadQuarantine(), repo)));
+    setToast({ message: `"${repo.name}" archived and queued for deletion in ${QUARANTINE_DAYS} days`, type: 'success' });
+  };
+
+  const releaseFromQuarantine = (repoId: number) => {
+    setQuarantine(saveQuarantine(loadQuarantine().filter(e => e.repoId !== repoId)));
+  };
+
+  const purgeableRepos = quarantine
+    .filter(entry => isQuarantineComplete(entry, repos.find(r => r.id === entry.repoId)))
+    .map(entry => repos.find(r => r.id === entry.repoId)!);
+
+  const purgeQuarantine = async () => {
+    const entries = await deleteWithBackup(purgeableRepos, 'quarantine');
+    setConfirmPurgeOpen(false);
+    const failed = entries.filter(e => e.status === 'failed').length;
+    setToast({
+      message: failed ? `Deleted ${entries.length - failed} of ${entries.length} quarantined repositories` : `Deleted ${entries.length} quarantined repositories`,
+      type: failed ? 'error' : 'success'
+    });
+  };
+
+  // Archive (or unarchive) through GitHub and record the outcome for the Action Registry
+  const archiveRepo = async (repo: GithubRepo, archived: boolean): Promise<ArchiveOutcome> => {
+    try {
+      const updated = await serviceForRepo(repo).setArchived(repo.full_name, archived);
+      setRepos(prevRepos => prevRepos.map(r => r.id === repo.id ? { ...r, archived: updated.archived } : r));
+      // Unarchiving ends a quarantine; archiving again later restarts the clock from zero
+      if (!updated.archived) releaseFromQuarantine(repo.id);
+      return { repoId: repo.id, fullName: repo.full_name, status: archived ? 'archived' : 'unarchived', at: Date.now() };
     } catch (err: unknown) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to delete repository';
-      setError(errorMsg);
+      const errorMsg = err instanceof Error ? err.message : 'Failed to update repository';
+      return { repoId: repo.id, fullName: repo.full_name, status: 'failed', error: errorMsg, at: Date.now() };
+    }
+  };
+
+  const handleToggleArchive = async (repo: GithubRepo) => {
+    setArchivingRepoId(repo.id);
+    const outcome = await archiveRepo(repo, !repo.archived);
+    setArchiveOutcomes(recordArchiveOutcomes([outcome]));
+    setArchivingRepoId(null);
+    if (outcome.status === 'failed') {
+      setToast({ message: outcome.error!, type: 'error' });
+    } else {
+      setToast({ message: `Repository "${repo.name}" ${outcome.status}`, type: 'success' });
+    }
+  };
+
+  // Collect GitHub repos the assessment or the registry recommends archiving
+  const openArchiveReview = () => {
+    const registry: RepoRegistryEntry[] = inventoryAnalysis?.repoRegistry || [];
+    const candidates: ArchiveCandidate[] = [];
+    repos.filter(r => !r.archived && !capabilityBlocker(r, 'archive')).forEach(repo => {
+      const cachedRaw = localStorage.getItem(`analysis_${repo.id}`);
+      const cached: AnalysisResult | null = cachedRaw ? JSON.parse(cachedRaw) : null;
+      // Names repeat across sources and local clones, so registry entries are matched by full name first
+      const registryItem = registry.find(item => findRegistryRepo(item, allRepos)?.id === repo.id);
+      if (!isArchiveRecommended(cached?.immediateAction, registryItem)) return;
+      candidates.push({
+        repo,
+        reason: cached?.immediateAction === 'Archive' ? 'Assessment immediate action: Archive' : registryItem?.action || 'Registry action: Archive'
+      });
+    });
+    setArchiveRunOutcomes({});
+    setArchiveCandidates(candidates);
+  };
+
+  const runBulkArchive = async (selected: GithubRepo[]) => {
+    setIsBulkArchiving(true);
+    const results: ArchiveOutcome[] = [];
+    for (const repo of selected) {
+      setArchivingRepoId(repo.id);
+      const outcome = await archiveRepo(repo, true);
+      results.push(outcome);
+      setArchiveRunOutcomes(prev => ({ ...prev, [repo.id]: outcome }));
+    }
+    setArchivingRepoId(null);
+    setArchiveOutcomes(recordArchiveOutcomes(results));
+    setIsBulkArchiving(false);
+
+    const failed = results.filter(r => r.status === 'failed').length;
+    setToast({
+      message: failed ? `Archived ${results.length - failed} of ${results.length} repositories` : `Archived ${results.length} repositories`,
+      type: failed ? 'error' : 'success'
+    });
+  };
+
+  // Propose description, topics and homepage from cached analyses for repos whose GitHub metadata differs
+  const openPublishMetadata = async (repoList: GithubRepo[]) => {
+    setPreparingPublish(true);
+    const entries: MetadataPublishEntry[] = [];
+    try {
+      for (const repo of repoList.filter(r => !r.isLocal && !r.archived)) {
+        const cachedRaw = localStorage.getItem(`analysis_${repo.id}`);
+        const cached: AnalysisResult | null = cachedRaw ? JSON.parse(cachedRaw) : null;
+        if (cached?.status !== 'success') continue;
+        const current = getCurrentMetadata(repo);
+
+        // A homepage is only proposed from the Pages URL GitHub reports
+        let pagesUrl: string | null = null;
+        if (repo.has_pages && !current.homepage) {
+          try {
+            pagesUrl = await serviceForRepo(repo).fetchPagesUrl(repo.full_name);
+          } catch (err) {
+            console.warn(`Pages site of ${repo.full_name} unavailable:`, err);
+          }
+        }
+
+        const proposed = buildMetadataProposal(repo, cached, pagesUrl);
+        if (getChangedFields(current, proposed).length > 0) {
+          entries.push({ repo, current, proposed });
+        }
+      }
+    } finally {
+      setPreparingPublish(false);
+    }
+    setPublishOutcomes({});
+    setPublishEntries(entries);
+  };
+
+  const runPublishMetadata = async (updates: { repo: GithubRepo; update: Partial<PublishableMetadata> }[]) => {
+    let failed = 0;
+    for (const { repo, update } of updates) {
+      setPublishingRepoId(repo.id);
+      try {
+        await serviceForRepo(repo).updateRepoMetadata(repo.full_name, update);
+        setRepos(prevRepos => prevRepos.map(r => r.id === repo.id ? { ...r, ...update } : r));
+        setPublishOutcomes(prev => ({ ...prev, [repo.id]: { status: 'published' } }));
+      } catch (err: unknown) {
+        failed++;
+        const errorMsg = err instanceof Error ? err.message : 'Failed to publish metadata';
+        setPublishOutcomes(prev => ({ ...prev, [repo.id]: { status: 'failed', error: errorMsg } }));
+      }
+    }
+    setPublishingRepoId(null);
+    setToast({
+      message: failed ? `Published metadata for ${updates.length - failed} of ${updates.length} repositories` : `Published metadata for ${updates.length} repositories`,
+      type: failed ? 'error' : 'success'
+    });
+  };
+
+  // Draft issues from the open analysis, marking findings an open issue already covers
+  const openFileIssues = async () => {
+    if (!selectedRepo) return;
+    setLoadingIssueDrafts(true);
+    try {
+      const openIssues = await serviceForRepo(selectedRepo).fetchOpenIssues(selectedRepo.full_name);
+      setIssueOutcomes({});
+      setIssueDrafts(buildIssueDrafts(analysis, openIssues));
+    } catch (err: unknown) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to load open issues';
       setToast({ message: errorMsg, type: 'error' });
     } finally {
-      setDeletingRepoId(null);
+      setLoadingIssueDrafts(false);
     }
   };
 
+  const runFileIssues = async (drafts: IssueDraft[]) => {
+    if (!selectedRepo) return;
+    const repo = selectedRepo;
+    const filed: FiledIssue[] = [];
+
+    for (const draft of drafts) {
+      setFilingDraftId(draft.id);
+      try {
+        const issue = await serviceForRepo(repo).createIssue(repo.full_name, { title: draft.title, body: draft.body, labels: draft.labels });
+        filed.push({ kind: draft.kind, finding: draft.finding, number: issue.number, title: issue.title, url: issue.html_url, filedAt: Date.now() });
+        setIssueOutcomes(prev => ({ ...prev, [draft.id]: { status: 'filed', number: issue.number, url: issue.html_url } }));
+      } catch (err: unknown) {
+        const errorMsg = err instanceof Error ? err.message : 'Failed to create issue';
+        setIssueOutcomes(prev => ({ ...prev, [draft.id]: { status: 'failed', error: errorMsg } }));
+      }
+    }
+    setFilingDraftId(null);
+
+    // Keep links to the created issues next to the cached analysis
+    if (filed.length > 0) {
+      const cacheKey = `analysis_${repo.id}`;
+      const cachedRaw = localStorage.getItem(cacheKey);
+      if (cachedRaw) {
+        const cached: AnalysisResult = JSON.parse(cachedRaw);
+        localStorage.setItem(cacheKey, JSON.stringify({ ...cached, filedIssues: [...(cached.filedIssues || []), ...filed] }));
+      }
+      setAnalysis(prev => ({ ...prev, filedIssues: [...(prev.filedIssues || []), ...filed] }));
+    }
+
+    const failed = drafts.length - filed.length;
+    setToast({
+      message: failed ? `Filed ${filed.length} of ${drafts.length} issues` : `Filed ${filed.length} issue${filed.length === 1 ? '' : 's'}`,
+      type: failed ? 'error' : 'success'
+    });
+  };
+
+  // Branch inventories cost a request or two per branch, so they are collected on demand rather than during sync
+  const scanBranches = async (repoList: GithubRepo[], force = false) => {
+    const targets = repoList.filter(r => !r.isLocal && (force || isForensicsStale(getForensics(r.id).branchInventory?.collectedAt)));
+    let failed = 0;
+    for (const [idx, repo] of targets.entries()) {
+      setBranchScan({ current: idx, total: targets.length, currentName: repo.name });
+      try {
+        const branchInventory = await new BranchInventoryService(serviceForRepo(repo)).collect(repo);
+        updateForensics(repo.id, { branchInventory });
+      } catch (err) {
+        failed++;
+        console.warn(`Branch inventory unavailable for ${repo.name}:`, err);
+      }
+      setForensicsRevision(rev => rev + 1);
+    }
+    setBranchScan(null);
+    if (failed) {
+      setToast({ message: `Could not read branches of ${failed} of ${targets.length} repositories`, type: 'error' });
+    } else if (targets.length > 1) {
+      setToast({ message: `Scanned branches of ${targets.length} repositories`, type: 'success' });
+    }
+  };
+
+  const updateUnmergedAgeDays = (days: number) => {
+    setUnmergedAgeDays(days);
+    localStorage.setItem('unmerged_age_days', days.toString());
+  };
+
+  const renderTokenDiagnostics = (sourceId: string) => {
+    const checkError = tokenCheckErrors[sourceId];
+    if (checkError) {
+      return <p role="alert" className="mt-2 text-xs text-red-400">Token check failed: {checkError}</p>;
+    }
+    const diagnostics = tokenDiagnostics[sourceId];
+    if (!diagnostics) return null;
+
+    const expired = isTokenExpired(diagnostics);
+    return (
+      <div className="mt-3 bg-[#020617] border border-slate-800 rounded-xl px-4 py-3 text-xs" aria-label="Token capabilities">
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-400 mb-2">
+          <span><span className="text-slate-500">Type:</span> <span className="text-slate-200">{diagnostics.kind === 'unknown' ? 'unrecognized' : diagnostics.kind}</span></span>
+          <span><span className="text-slate-500">User:</span> <span className="text-slate-200">{diagnostics.login}</span></span>
+          <span className={expired ? 'text-red-400' : ''}>
+            <span className="text-slate-500">Expires:</span> {diagnostics.expiresAt ? `${new Date(diagnostics.expiresAt).toLocaleDateString()}${expired ? ' (expired)' : ''}` : 'never'}
+          </span>
+        </div>
+        <p className="text-slate-500 mb-2 break-words">
+          Scopes: {diagnostics.scopes === null
+            ? 'not reported; fine-grained and app tokens are limited per repository'
+            : <span className="font-mono text-slate-300">{diagnostics.scopes.join(', ') || '(none)'}</span>}
+        </p>
+        <ul className="grid grid-cols-2 gap-1">
+          {(Object.keys(CAPABILITY_LABELS) as RepoCapability[]).map(capability => {
+            const supported = diagnostics.capabilities[capability];
+            return (
+              <li key={capability} className={supported === true ? 'text-emerald-400' : supported === false ? 'text-red-400' : 'text-slate-400'}>
+                {supported === true ? '✓' : supported === false ? '✗' : '?'} {CAPABILITY_LABELS[capability]}
+              </li>
+            );
+          })}
+        </ul>
+        <p className="mt-2 text-[10px] text-slate-600">Checked {new Date(diagnostics.checkedAt).toLocaleString()}</p>
+      </div>
+    );
+  };
+
+  const renderConnectionTest = (testId: string) => {
+    const test = connectionTests[testId];
+    if (!test) return null;
+    const color = test.status === 'ok' ? 'text-emerald-400' : test.status === 'error' ? 'text-red-400' : 'text-slate-400';
+    return <span role="status" className={`text-xs ${color}`}>{test.message}</span>;
+  };
+
   // Derived unique languages for filter
-  // IMPORTANT: Always combine repos (GitHub) and localRepos (Local Folder) for portfolio-wide state
+  // IMPORTANT: Always use allRepos (GitHub plus local folders) for portfolio-wide state
   const languages = useMemo(() => {
     const langs = new Set<string>();
-    [...repos, ...localRepos].forEach(r => { if (r.language) langs.add(r.language); });
+    allRepos.forEach(r => getSignificantLanguages(r.language, r.languages).forEach(l => langs.add(l)));
     return ['All', ...Array.from(langs).sort()];
-  }, [repos, localRepos]);
+  }, [allRepos]);
+
+  const topics = useMemo(() => {
+    const found = new Set<string>();
+    allRepos.forEach(r => r.topics?.forEach(t => found.add(t)));
+    return ['All', ...Array.from(found).sort()];
+  }, [allRepos]);
+
+  // Re-read collected forensics whenever a collection run stores new data
+  useEffect(() => {
+    setForensicsById(new Map(allRepos.map(r => [r.id, getForensics(r.id)])));
+  }, [allRepos, forensicsRevision]);
 
   // Computed filtered and sorted repos
   const displayRepos = useMemo(() => {
-    let result = [...repos, ...localRepos];
+    let result = [...allRepos];
 
     // Search
     if (searchTerm) {
@@ -678,7 +1415,12 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
 
     // Filter Language
     if (filterLang !== 'All') {
-      result = result.filter(r => r.language === filterLang);
+      result = result.filter(r => getSignificantLanguages(r.language, r.languages).includes(filterLang));
+    }
+
+    // Filter Topic
+    if (filterTopic !== 'All') {
+      result = result.filter(r => r.topics?.includes(filterTopic));
     }
 
     // Filter Visibility
@@ -688,26 +1430,53 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
       result = result.filter(r => !r.private);
     }
 
+    // Filter Source
+    if (filterSource === 'local') {
+      result = result.filter(r => r.isLocal || r.localPath);
+    } else if (filterSource !== 'All') {
+      result = result.filter(r => r.sourceId === filterSource);
+    }
+
+    // Filter Forks
+    if (filterFork !== 'all') {
+      result = result.filter(r => matchesForkFilter(r, forensicsById.get(r.id)?.forkDivergence, filterFork));
+    }
+
+    // Filter CI
+    if (filterCi !== 'all') {
+      result = result.filter(r => matchesCiFilter(forensicsById.get(r.id)?.ciHealth?.status, filterCi));
+    }
+
     // Sorting
     result.sort((a, b) => {
       switch (sortBy) {
         case 'updated-desc':
-          return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
+          return activityTime(b) - activityTime(a);
         case 'updated-asc':
-          return new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime();
+          return activityTime(a) - activityTime(b);
         case 'name-asc':
           return a.name.localeCompare(b.name);
         case 'name-desc':
           return b.name.localeCompare(a.name);
         case 'language':
           return (a.language || '').localeCompare(b.language || '');
+        case 'stars-desc':
+          return (b.stargazers_count ?? 0) - (a.stargazers_count ?? 0);
         default:
           return 0;
       }
     });
 
     return result;
-  }, [repos, localRepos, searchTerm, filterLang, filterVisibility, sortBy]);
+  }, [allRepos, searchTerm, filterLang, filterTopic, filterVisibility, filterSource, filterFork, filterCi, sortBy, forensicsById]);
+
+  const sourceLabels = useMemo(() => new Map(sources.map(s => [s.id, formatSourceLabel(s)])), [sources]);
+
+  // Portfolio-wide unmerged work, oldest branch first
+  const unmergedWork = useMemo(() => repos
+    .flatMap(repo => getUnmergedBranches(forensicsById.get(repo.id)?.branchInventory, unmergedAgeDays).map(branch => ({ repo, branch })))
+    .sort((a, b) => (getBranchAgeDays(b.branch) ?? 0) - (getBranchAgeDays(a.branch) ?? 0)),
+  [repos, forensicsById, unmergedAgeDays]);
 
   // Parse advice string into points
   const advicePoints = useMemo(() => {
@@ -777,6 +1546,12 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
             onClick={() => setView(View.INVENTORY)}
             icon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>}
           />
+          <NavItem
+            active={view === View.BRANCHES}
+            label="Branches"
+            onClick={() => setView(View.BRANCHES)}
+            icon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" /></svg>}
+          />
           <NavItem
             active={view === View.SETTINGS}
             label="Settings"
@@ -806,10 +1581,27 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
               </svg>
             </button>
             <h2 className="text-lg font-semibold text-white">
-              {view === View.DASHBOARD ? 'Repository Explorer' : view === View.SETTINGS ? 'Configuration' : view === View.INVENTORY ? 'Inventory Summary' : 'Repo Analysis'}
+              {view === View.DASHBOARD ? 'Repository Explorer' : view === View.SETTINGS ? 'Configuration' : view === View.INVENTORY ? 'Inventory Summary' : view === View.BRANCHES ? 'Unmerged Work' : 'Repo Analysis'}
             </h2>
           </div>
           <div className="flex items-center gap-4">
+            {rateLimit && (
+              <div
+                className={`px-3 py-1.5 rounded-lg text-xs font-mono border ${rateLimit.pausedUntil
+                  ? 'bg-red-500/10 border-red-500/20 text-red-400'
+                  : rateLimit.remaining / rateLimit.limit < 0.1
+                    ? 'bg-amber-500/10 border-amber-500/20 text-amber-400'
+                    : 'bg-slate-800/50 border-slate-700 text-slate-400'
+                  }`}
+                title={`GitHub ${rateLimit.resource} quota`}
+                role="status"
+                aria-live="polite"
+              >
+                {rateLimit.pausedUntil
+                  ? `Rate limited · resumes ${formatClockTime(rateLimit.pausedUntil)}`
+                  : `API ${rateLimit.remaining}/${rateLimit.limit} · resets ${formatClockTime(rateLimit.resetAt)}`}
+              </div>
+            )}
             <button
               onClick={() => fetchRepos(true)}
               disabled={loading}
@@ -873,7 +1665,7 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
         </header>
 
         {/* Filters Bar (Only on Dashboard) */}
-        {view === View.DASHBOARD && githubToken && (
+        {view === View.DASHBOARD && hasSourceToken && (
           <div className="bg-[#0f172a]/50 backdrop-blur-md border-b border-slate-800 px-8 py-3 flex flex-wrap items-center gap-4">
             {/* Search */}
             <div className="relative flex-1 min-w-[200px]">
@@ -905,6 +1697,22 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
               </select>
             </div>
 
+            {/* Topic Filter */}
+            {topics.length > 1 && (
+              <div className="flex items-center gap-2">
+                <label htmlFor="filter-topic" className="text-xs text-slate-500 font-medium uppercase tracking-tight">Topic:</label>
+                <select
+                  id="filter-topic"
+                  value={filterTopic}
+                  onChange={(e) => setFilterTopic(e.target.value)}
+                  onBlur={(e) => setFilterTopic(e.target.value)}
+                  className="bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+                >
+                  {topics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+                </select>
+              </div>
+            )}
+
             {/* Visibility Filter */}
             <div className="flex items-center gap-2">
               <label htmlFor="filter-visibility" className="text-xs text-slate-500 font-medium uppercase tracking-tight">Access:</label>
@@ -921,6 +1729,60 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
               </select>
             </div>
 
+            {/* Source Filter */}
+            <div className="flex items-center gap-2">
+              <label htmlFor="filter-source" className="text-xs text-slate-500 font-medium uppercase tracking-tight">Source:</label>
+              <select
+                id="filter-source"
+                value={filterSource}
+                onChange={(e) => setFilterSource(e.target.value)}
+                onBlur={(e) => setFilterSource(e.target.value)}
+                className="bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+              >
+                <option value="All">All</option>
+                {sources.map(source => <option key={source.id} value={source.id}>{formatSourceLabel(source)}</option>)}
+                {localRepos.length > 0 && <option value="local">Local</option>}
+              </select>
+            </div>
+
+            {/* Fork Filter */}
+            {repos.some(r => r.fork) && (
+              <div className="flex items-center gap-2">
+                <label htmlFor="filter-fork" className="text-xs text-slate-500 font-medium uppercase tracking-tight">Forks:</label>
+                <select
+                  id="filter-fork"
+                  value={filterFork}
+                  onChange={(e) => setFilterFork(e.target.value as ForkFilter)}
+                  onBlur={(e) => setFilterFork(e.target.value as ForkFilter)}
+                  className="bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+                >
+                  <option value="all">All</option>
+                  <option value="originals">Originals only</option>
+                  <option value="forks">Forks only</option>
+                  <option value="cleanup">Forks without own commits</option>
+                </select>
+              </div>
+            )}
+
+            {/* CI Filter */}
+            <div className="flex items-center gap-2">
+              <label htmlFor="filter-ci" className="text-xs text-slate-500 font-medium uppercase tracking-tight">CI:</label>
+              <select
+                id="filter-ci"
+                value={filterCi}
+                onChange={(e) => setFilterCi(e.target.value as CiFilter)}
+                onBlur={(e) => setFilterCi(e.target.value as CiFilter)}
+                className="bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+              >
+                <option value="all">All</option>
+                <option value="passing">Passing</option>
+                <option value="failing">Failing</option>
+                <option value="unknown">No recent result</option>
+                <option value="none">No CI</option>
+                <option value="attention">Broken or missing</option>
+              </select>
+            </div>
+
             {/* Sorting */}
             <div className="flex items-center gap-2">
               <label htmlFor="sort-by" className="text-xs text-slate-500 font-medium uppercase tracking-tight">Sort:</label>
@@ -936,6 +1798,7 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                 <option value="name-asc">Name (A-Z)</option>
                 <option value="name-desc">Name (Z-A)</option>
                 <option value="language">Language</option>
+                <option value="stars-desc">Stars</option>
               </select>
             </div>
 
@@ -954,7 +1817,31 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
             </div>
           )}
 
-          {!githubToken && view !== View.SETTINGS && (
+          {repoLoadProgress && (
+            <div className="mb-6 p-4 bg-indigo-500/10 border border-indigo-500/20 text-indigo-300 rounded-lg flex items-center gap-3 text-sm" role="status">
+              <LoadingSpinner size="sm" label="Loading repositories" />
+              <span>
+                Loading repositories: page {repoLoadProgress.page}{repoLoadProgress.totalPages ? ` of ${repoLoadProgress.totalPages}` : ''} ({repoLoadProgress.loaded} loaded)
+              </span>
+            </div>
+          )}
+
+          {localScan && (
+            <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/20 text-emerald-300 rounded-lg flex items-center gap-3 text-sm" role="status">
+              <LoadingSpinner size="sm" label="Scanning local folders" />
+              <span className="flex-1 min-w-0 truncate">
+                Scanning local folders: {localScan.foldersVisited} visited, {localScan.reposFound} repositories found ({localScan.currentPath})
+              </span>
+              <button
+                onClick={() => localScanAbort.current?.abort()}
+                className="text-xs uppercase font-bold tracking-widest shrink-0"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {!hasSourceToken && view !== View.SETTINGS && (
             <div className="max-w-2xl mx-auto text-center py-20">
               <div className="w-20 h-20 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-6">
                 <svg className="w-10 h-10 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -972,26 +1859,114 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
             </div>
           )}
 
-          {view === View.DASHBOARD && githubToken && (
+          {view === View.DASHBOARD && hasSourceToken && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {displayRepos.map(repo => (
                 <div key={repo.id} className="bg-[#0f172a] border border-slate-800 rounded-2xl p-6 hover:border-indigo-500/50 transition-all group flex flex-col">
                   <div className="flex justify-between items-start mb-4">
                     <span className="text-indigo-400 font-mono text-xs uppercase tracking-wider">{repo.language || 'Plain Text'}</span>
-                    {repo.private && <span className="bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-tighter border border-slate-700">Private</span>}
+                    <div className="flex items-center gap-2">
+                      {repo.sourceId && sourceLabels.has(repo.sourceId) && (
+                        <span className="bg-sky-500/10 text-sky-400 text-[10px] px-2 py-0.5 rounded font-bold tracking-tight border border-sky-500/20">{sourceLabels.get(repo.sourceId)}</span>
+                      )}
+                      {forensicsById.get(repo.id)?.ciHealth && (() => {
+                        const ci = forensicsById.get(repo.id)!.ciHealth!;
+                        const style = ci.status === 'passing'
+                          ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                          : ci.status === 'failing'
+                            ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                            : 'bg-slate-800 text-slate-500 border-slate-700';
+                        return (
+                          <span
+                            className={`${style} text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-tighter border`}
+                            title={ci.workflows.length ? ci.workflows.map(w => `${w.name}: ${w.lastRun?.conclusion || 'no finished run'}`).join('\n') : 'No GitHub Actions workflows'}
+                          >
+                            CI {ci.status === 'passing' ? '✓' : ci.status === 'failing' ? '✗' : ci.status === 'unknown' ? '?' : 'none'}
+                          </span>
+                        );
+                      })()}
+                      {repo.fork && <span className="bg-violet-500/10 text-violet-400 text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-tighter border border-violet-500/20">Fork</span>}
+                      {repo.archived && <span className="bg-amber-500/10 text-amber-400 text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-tighter border border-amber-500/20">Archived</span>}
+                      {repo.private && <span className="bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-tighter border border-slate-700">Private</span>}
+                    </div>
                   </div>
                   <h4 className="text-lg font-bold text-white mb-2 group-hover:text-indigo-400 transition-colors truncate flex items-center gap-2">
                     {repo.name}
                     {repo.isLocal && <span className="text-[10px] bg-emerald-500/20 text-emerald-400 px-1.5 py-0.5 rounded border border-emerald-500/20">LOCAL</span>}
+                    {!repo.isLocal && repo.localPath && <span className="text-[10px] bg-emerald-500/20 text-emerald-400 px-1.5 py-0.5 rounded border border-emerald-500/20" title={`Cloned at ${repo.localPath}`}>CLONE</span>}
                   </h4>
-                  <p className="text-sm text-slate-400 mb-6 line-clamp-2 h-10">{repo.description || 'No description provided.'}</p>
+                  <p className="text-sm text-slate-400 mb-4 line-clamp-2 h-10">{repo.description || 'No description provided.'}</p>
+                  {(repo.topics?.length || repo.stargazers_count) ? (
+                    <div className="flex flex-wrap items-center gap-2 mb-4 text-[10px]">
+                      {repo.stargazers_count ? <span className="text-amber-400 font-bold">★ {repo.stargazers_count}</span> : null}
+                      {repo.topics?.slice(0, 3).map(topic => (
+                        <span key={topic} className="bg-indigo-500/10 text-indigo-300 px-1.5 py-0.5 rounded border border-indigo-500/20">{topic}</span>
+                      ))}
+                    </div>
+                  ) : null}
+                  {repo.fork && repo.parent && (() => {
+                    const divergence = forensicsById.get(repo.id)?.forkDivergence;
+                    return (
+                      <div className="flex flex-wrap items-center gap-2 mb-4 text-[10px]">
+                        <a href={repo.parent.html_url} target="_blank" rel="noreferrer" className="text-violet-300 hover:underline truncate">Fork of {repo.parent.full_name}</a>
+                        {divergence && (
+                          <span className="text-slate-400" title={`${divergence.aheadBy} commits ahead, ${divergence.behindBy} behind ${divergence.parentFullName}`}>
+                            ↑{divergence.aheadBy} ↓{divergence.behindBy}
+                          </span>
+                        )}
+                        {isForkCleanupCandidate(divergence) && (
+                          <span className="bg-red-500/10 text-red-400 px-1.5 py-0.5 rounded border border-red-500/20 font-bold">No own commits · cleanup candidate</span>
+                        )}
+                      </div>
+                    );
+                  })()}
+                  {repo.cloneSync && (
+                    <div className="flex flex-wrap items-center gap-2 mb-4 text-[10px]">
+                      <span
+                        className={`px-1.5 py-0.5 rounded border font-bold ${repo.cloneSync.status === 'synced' ? 'text-emerald-400 border-emerald-500/20 bg-emerald-500/10' : repo.cloneSync.status === 'unknown' ? 'text-slate-400 border-slate-700 bg-slate-800' : 'text-amber-400 border-amber-500/20 bg-amber-500/10'}`}
+                        title={`Checked ${new Date(repo.cloneSync.checkedAt).toLocaleString()}`}
+                      >
+                        {CLONE_SYNC_LABELS[repo.cloneSync.status]}
+                      </span>
+                      {(repo.cloneSync.aheadBy !== null || repo.cloneSync.behindBy !== null) && (
+                        <span className="text-slate-400" title={`Local ${repo.localGit?.branch || 'HEAD'} compared with ${repo.cloneSync.remoteFullName || repo.localGit?.upstream?.remote || 'its remote'}`}>
+                          ↑{repo.cloneSync.aheadBy ?? '?'} ↓{repo.cloneSync.behindBy ?? '?'}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {forensicsById.get(repo.id)?.commitActivity?.weeklyCommits && (() => {
+                    const activity = forensicsById.get(repo.id)!.commitActivity!;
+                    return (
+                      <div className="flex items-center gap-3 mb-4 text-emerald-400">
+                        <Sparkline values={activity.weeklyCommits} label={`${activity.commitsLastYear} commits in the last year`} />
+                        <span className="text-[10px] text-slate-500">{activity.activeWeeksLastYear}/52 active wks · {activity.contributorCount} contrib.</span>
+                      </div>
+                    );
+                  })()}
                   <div className="mt-auto flex items-center justify-between">
-                    <span className="text-xs text-slate-500">Updated {new Date(repo.updated_at).toLocaleDateString()}</span>
+                    <span className="text-xs text-slate-500" title={repo.last_commit_at ? 'Last commit on the default branch' : repo.pushed_at ? 'Last push' : 'Last metadata update'}>
+                      {getLastActivityDate(repo)
+                        ? `${repo.last_commit_at || repo.pushed_at ? 'Active' : 'Updated'} ${new Date(getLastActivityDate(repo)!).toLocaleDateString()}`
+                        : 'Last commit unknown'}
+                    </span>
                     <div className="flex items-center gap-4">
+                      {!repo.isLocal && (
+                        <button
+                          onClick={() => handleToggleArchive(repo)}
+                          disabled={archivingRepoId === repo.id || !!capabilityBlocker(repo, 'archive')}
+                          aria-label={`${repo.archived ? 'Unarchive' : 'Archive'} repository ${repo.name}`}
+                          title={capabilityBlocker(repo, 'archive') || (repo.archived ? 'Unarchive' : 'Archive (read-only, reversible)')}
+                          className={`${repo.archived ? 'text-amber-400 hover:text-amber-300' : 'text-slate-400 hover:text-amber-400'} transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                          <svg className={`w-5 h-5 ${archivingRepoId === repo.id ? 'animate-pulse' : ''}`} aria-hidden="true" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDeleteRepo(repo)}
-                        disabled={deletingRepoId === repo.id}
+                        disabled={deletingRepoId === repo.id || !!capabilityBlocker(repo, 'delete')}
                         aria-label={`Delete repository ${repo.name}`}
+                        title={capabilityBlocker(repo, 'delete') || undefined}
                         className="text-red-500 hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         {deletingRepoId === repo.id ? (
@@ -1004,7 +1979,7 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                         )}
                       </button>
                       <a
-                        href={`https://github.com/${repo.full_name}/archive/refs/heads/${repo.default_branch}.zip`}
+                        href={`${repo.html_url}/archive/refs/heads/${repo.default_branch}.zip`}
                         download
                         aria-label={`Download ${repo.name} as zip file`}
                         className="text-slate-400 hover:text-white transition-colors"
@@ -1048,7 +2023,7 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                   />
                 </div>
                 <div>
-                  <label htmlFor="github-token" className="block text-sm font-medium text-slate-400 mb-2">Personal Access Token (classic)</label>
+                  <label htmlFor="github-token" className="block text-sm font-medium text-slate-400 mb-2">Personal Access Token</label>
                   <input
                     id="github-token"
                     type="password"
@@ -1058,8 +2033,51 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                     placeholder="ghp_xxxxxxxxxxxx"
                     required
                   />
-                  <p className="mt-2 text-xs text-slate-500">Ensure &apos;repo&apos; scope is selected for private access. Stored locally only.</p>
+                  <p className="mt-2 text-xs text-slate-500">Classic tokens need the &apos;repo&apos; scope for private access and &apos;delete_repo&apos; to delete. The token is checked on save and stored locally only.</p>
+                  {renderTokenDiagnostics(PRIMARY_SOURCE_ID)}
                 </div>
+                <fieldset>
+                  <legend className="block text-sm font-medium text-slate-400 mb-2">GitHub Enterprise Server (optional)</legend>
+                  <div className="space-y-3">
+                    <div>
+                      <label htmlFor="github-api-url" className="sr-only">REST API base URL</label>
+                      <input
+                        id="github-api-url"
+                        type="text"
+                        value={apiBaseUrlDraft}
+                        onChange={(e) => setApiBaseUrlDraft(e.target.value)}
+                        className="w-full bg-[#020617] border border-slate-700 rounded-xl px-4 py-3 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                        placeholder={`${DEFAULT_API_BASE_URL} (or https://ghe.example.com/api/v3)`}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="github-graphql-url" className="sr-only">GraphQL endpoint</label>
+                      <input
+                        id="github-graphql-url"
+                        type="text"
+                        value={graphqlUrlDraft}
+                        onChange={(e) => setGraphqlUrlDraft(e.target.value)}
+                        className="w-full bg-[#020617] border border-slate-700 rounded-xl px-4 py-3 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                        placeholder="GraphQL URL (derived from the REST URL when empty)"
+                      />
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => handleTestConnection('primary', githubToken, apiBaseUrlDraft, graphqlUrlDraft)}
+                        disabled={!githubToken || connectionTests.primary?.status === 'testing'}
+                        className="shrink-0 px-4 py-2 border border-slate-700 text-slate-300 hover:text-white rounded-xl text-xs font-semibold transition-all disabled:opacity-50"
+                      >
+                        Test Connection
+                      </button>
+                      {renderConnectionTest('primary')}
+                    </div>
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">
+                    Leave empty for github.com. For Enterprise Server enter the REST URL; a bare host gets <code>/api/v3</code> added and GraphQL defaults to <code>/api/graphql</code>.
+                    If your server uses a company certificate authority, the browser must trust it: install the root certificate in your OS or browser certificate store (Keychain Access, certmgr, or your distribution&apos;s CA bundle), restart the browser, then test the connection.
+                  </p>
+                </fieldset>
                 <div>
                   <label htmlFor="sync-limit" className="block text-sm font-medium text-slate-400 mb-2">Analysis Sync Limit (First X Repos)</label>
                   <input
@@ -1074,6 +2092,132 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                   />
                   <p className="mt-2 text-xs text-slate-500">Limits the number of repositories analyzed during background synchronization to save API tokens.</p>
                 </div>
+                <fieldset>
+                  <legend className="block text-sm font-medium text-slate-400 mb-2">Local Scan</legend>
+                  <label htmlFor="scan-exclusions" className="block text-xs text-slate-500 mb-1">Excluded folders and files</label>
+                  <textarea
+                    id="scan-exclusions"
+                    value={scanExclusions}
+                    onChange={(e) => setScanExclusions(e.target.value)}
+                    rows={5}
+                    className="w-full bg-[#020617] border border-slate-700 rounded-xl px-4 py-3 text-xs font-mono text-white focus:outline-none focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                  />
+                  <label htmlFor="scan-max-depth" className="block text-xs text-slate-500 mt-3 mb-1">Maximum folder depth</label>
+                  <input
+                    id="scan-max-depth"
+                    type="number"
+                    value={scanMaxDepth}
+                    onChange={(e) => setScanMaxDepth(parseInt(e.target.value) || 1)}
+                    className="w-full bg-[#020617] border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                    min="1"
+                    max="20"
+                  />
+                  <p className="mt-2 text-xs text-slate-500">
+                    One <code>.gitignore</code>-style pattern per line, relative to the folder you pick; <code>name/</code> skips folders of that name anywhere.
+                    Each repository&apos;s own <code>.gitignore</code> and <code>.git/info/exclude</code> are honoured too. The depth limits how many folder levels below the picked folder are searched for repositories.
+                  </p>
+                </fieldset>
+                <fieldset>
+                  <legend className="block text-sm font-medium text-slate-400 mb-2">Additional Sources</legend>
+                  <div className="space-y-3">
+                    {sourceDrafts.map((source, idx) => (
+                      <div key={source.id} className="flex flex-wrap items-center gap-2">
+                        <label htmlFor={`source-kind-${source.id}`} className="sr-only">Source {idx + 1} type</label>
+                        <select
+                          id={`source-kind-${source.id}`}
+                          value={source.kind}
+                          onChange={(e) => setSourceDrafts(prev => prev.map(s => s.id === source.id ? { ...s, kind: e.target.value as RepoSource['kind'] } : s))}
+                          onBlur={(e) => setSourceDrafts(prev => prev.map(s => s.id === source.id ? { ...s, kind: e.target.value as RepoSource['kind'] } : s))}
+                          className="bg-[#020617] border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-600"
+                        >
+                          <option value="org">Organization</option>
+                          <option value="user">User account</option>
+                        </select>
+                        <label htmlFor={`source-login-${source.id}`} className="sr-only">Source {idx + 1} name</label>
+                        <input
+                          id={`source-login-${source.id}`}
+                          type="text"
+                          value={source.login}
+                          onChange={(e) => setSourceDrafts(prev => prev.map(s => s.id === source.id ? { ...s, login: e.target.value } : s))}
+                          className="flex-1 min-w-[120px] bg-[#020617] border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-600"
+                          placeholder={source.kind === 'org' ? 'org-name' : 'username'}
+                        />
+                        <label htmlFor={`source-token-${source.id}`} className="sr-only">Source {idx + 1} token</label>
+                        <input
+                          id={`source-token-${source.id}`}
+                          type="password"
+                          value={source.token}
+                          onChange={(e) => setSourceDrafts(prev => prev.map(s => s.id === source.id ? { ...s, token: e.target.value } : s))}
+                          className="flex-1 min-w-[120px] bg-[#020617] border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-600"
+                          placeholder="ghp_xxxxxxxxxxxx"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setSourceDrafts(prev => prev.filter(s => s.id !== source.id))}
+                          aria-label={`Remove source ${source.login || idx + 1}`}
+                          className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                        >
+                          <svg className="w-4 h-4" aria-hidden="true" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                        <label htmlFor={`source-api-${source.id}`} className="sr-only">Source {idx + 1} API URL</label>
+                        <input
+                          id={`source-api-${source.id}`}
+                          type="text"
+                          value={source.apiBaseUrl || ''}
+                          onChange={(e) => setSourceDrafts(prev => prev.map(s => s.id === source.id ? { ...s, apiBaseUrl: e.target.value } : s))}
+                          className="flex-1 min-w-[160px] bg-[#020617] border border-slate-700 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:ring-2 focus:ring-indigo-600"
+                          placeholder="API URL (blank for github.com)"
+                        />
+                        <label htmlFor={`source-graphql-${source.id}`} className="sr-only">Source {idx + 1} GraphQL URL</label>
+                        <input
+                          id={`source-graphql-${source.id}`}
+                          type="text"
+                          value={source.graphqlUrl || ''}
+                          onChange={(e) => setSourceDrafts(prev => prev.map(s => s.id === source.id ? { ...s, graphqlUrl: e.target.value } : s))}
+                          className="flex-1 min-w-[160px] bg-[#020617] border border-slate-700 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:ring-2 focus:ring-indigo-600"
+                          placeholder="GraphQL URL (optional)"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleTestConnection(source.id, source.token, source.apiBaseUrl, source.graphqlUrl)}
+                          disabled={!source.token || connectionTests[source.id]?.status === 'testing'}
+                          className="px-3 py-2 border border-slate-700 text-slate-300 hover:text-white rounded-xl text-xs font-semibold transition-all disabled:opacity-50"
+                        >
+                          Test
+                        </button>
+                        {connectionTests[source.id] && <div className="w-full">{renderConnectionTest(source.id)}</div>}
+                        <div className="w-full">{renderTokenDiagnostics(source.id)}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setSourceDrafts(prev => [...prev, createSource()])}
+                    className="mt-3 text-xs font-bold text-indigo-400 hover:text-indigo-300"
+                  >
+                    + Add organization or account
+                  </button>
+                  <p className="mt-2 text-xs text-slate-500">Repositories from every source are merged into the dashboard. Rows without a name or token are ignored.</p>
+                </fieldset>
+                <fieldset>
+                  <legend className="block text-sm font-medium text-slate-400 mb-2">Repository Affiliation</legend>
+                  <div className="flex flex-wrap gap-4">
+                    {AFFILIATION_OPTIONS.map(option => (
+                      <label key={option.value} className="flex items-center gap-2 text-sm text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={affiliation.includes(option.value)}
+                          onChange={(e) => setAffiliation(prev => e.target.checked
+                            ? [...prev, option.value]
+                            : prev.filter(a => a !== option.value))}
+                          className="accent-indigo-600"
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">Which repositories to include: ones you own, ones you collaborate on, or ones shared through your organizations.</p>
+                </fieldset>
                 <div className="pt-4 flex gap-4">
                   <button
                     type="submit"
@@ -1091,12 +2235,178 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                   <button type="button" onClick={() => setView(View.DASHBOARD)} className="px-6 py-3 border border-slate-700 text-slate-400 hover:text-white rounded-xl transition-all">Cancel</button>
                 </div>
               </form>
+              <div className="mt-8 pt-6 border-t border-slate-800 flex items-center justify-between gap-4">
+                <p className="text-xs text-slate-500">GitHub responses are cached with their ETags, so unchanged data is served locally without spending API quota.</p>
+                <button
+                  type="button"
+                  onClick={() => {
+                    clearResponseCache();
+                    setToast({ message: 'GitHub response cache cleared', type: 'success' });
+                  }}
+                  className="shrink-0 px-4 py-2 border border-slate-700 text-slate-400 hover:text-white rounded-xl text-xs font-semibold transition-all"
+                >
+                  Clear Response Cache
+                </button>
+              </div>
+              <section className="mt-8 pt-6 border-t border-slate-800" aria-labelledby="quarantine-title">
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <h4 id="quarantine-title" className="text-sm font-bold text-white">Deletion Quarantine</h4>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmPurgeOpen(true)}
+                    disabled={purgeableRepos.length === 0 || deletingRepoId !== null}
+                    className="shrink-0 px-4 py-2 bg-red-600/10 hover:bg-red-600/20 text-red-400 border border-red-500/20 rounded-xl text-xs font-bold transition-all disabled:opacity-50"
+                  >
+                    Delete {purgeableRepos.length} Eligible
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500 mb-3">Quarantined repositories are archived right away and can be deleted once they have stayed archived for {QUARANTINE_DAYS} days. Unarchiving one pauses its deletion.</p>
+                {quarantine.length === 0 ? (
+                  <p className="text-xs text-slate-600">No repositories in quarantine.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {quarantine.map(entry => {
+                      const repo = repos.find(r => r.id === entry.repoId);
+                      const daysLeft = getQuarantineDaysLeft(entry);
+                      return (
+                        <li key={entry.repoId} className="flex items-center justify-between gap-3 text-xs">
+                          <span className="text-slate-300 truncate">{entry.fullName}</span>
+                          <span className="flex items-center gap-3 shrink-0">
+                            <span className={repo && !repo.archived ? 'text-amber-400' : daysLeft === 0 ? 'text-red-400' : 'text-slate-500'}>
+                              {repo && !repo.archived ? 'Paused (unarchived)' : daysLeft === 0 ? 'Eligible' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => releaseFromQuarantine(entry.repoId)}
+                              aria-label={`Release ${entry.fullName} from quarantine`}
+                              className="text-indigo-400 hover:text-indigo-300 font-bold"
+                            >
+                              Release
+                            </button>
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+              <section className="mt-8 pt-6 border-t border-slate-800" aria-labelledby="audit-log-title">
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <h4 id="audit-log-title" className="text-sm font-bold text-white">Deletion Audit Log</h4>
+                  <button
+                    type="button"
+                    onClick={() => downloadJsonFile(`repo-nexus-deletion-audit-${new Date().toISOString().split('T')[0]}.json`, deletionAudit)}
+                    disabled={deletionAudit.length === 0}
+                    className="shrink-0 px-4 py-2 border border-slate-700 text-slate-400 hover:text-white rounded-xl text-xs font-semibold transition-all disabled:opacity-50"
+                  >
+                    Export Audit Log
+                  </button>
+                </div>
+                {deletionAudit.length === 0 ? (
+                  <p className="text-xs text-slate-600">No deletions recorded.</p>
+                ) : (
+                  <ul className="space-y-2 max-h-64 overflow-y-auto">
+                    {[...deletionAudit].reverse().map(entry => (
+                      <li key={`${entry.repoId}-${entry.at}`} className="text-xs border-b border-slate-800/60 pb-2">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="text-slate-300 truncate">{entry.fullName}</span>
+                          <span className={entry.status === 'deleted' ? 'text-slate-400 shrink-0' : 'text-red-400 shrink-0'} title={entry.error}>
+                            {entry.status === 'deleted' ? 'Deleted' : 'Failed'} · {entry.trigger} · {new Date(entry.at).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-[10px] text-slate-600 font-mono truncate">Backup: {entry.backupFile}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
             </div>
           )}
 
 
           {view === View.PORTFOLIO && renderPortfolioView()}
 
+          {view === View.BRANCHES && (
+            <div className="max-w-5xl mx-auto space-y-6">
+              <div className="bg-[#0f172a] border border-slate-800 rounded-2xl p-6 flex flex-wrap items-end justify-between gap-4">
+                <div className="max-w-xl">
+                  <p className="text-sm text-slate-400 leading-relaxed">
+                    Branches with commits that never reached the default branch. Abandoned branches are where forgotten ideas usually live.
+                  </p>
+                  <p className="mt-2 text-xs text-slate-500">
+                    {repos.filter(r => forensicsById.get(r.id)?.branchInventory).length} of {repos.length} repositories scanned.
+                  </p>
+                  {repos.some(r => forensicsById.get(r.id)?.branchInventory?.truncated) && (
+                    <p className="mt-2 text-xs text-amber-400">
+                      Only the first {MAX_BRANCHES} branches of a repository are compared; branches beyond that are not listed here or in the reports:{' '}
+                      {repos.filter(r => forensicsById.get(r.id)?.branchInventory?.truncated).map(r => {
+                        const inventory = forensicsById.get(r.id)!.branchInventory!;
+                        return `${r.name} (${inventory.branches.length} of ${inventory.totalBranches ?? `${MAX_BRANCHES}+`})`;
+                      }).join(', ')}.
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-end gap-3">
+                  <div>
+                    <label htmlFor="unmerged-age" className="block text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-1">Older than (days)</label>
+                    <input
+                      id="unmerged-age"
+                      type="number"
+                      min="0"
+                      value={unmergedAgeDays}
+                      onChange={(e) => updateUnmergedAgeDays(Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-24 bg-[#020617] border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-600"
+                    />
+                  </div>
+                  <button
+                    onClick={() => scanBranches(repos)}
+                    disabled={branchScan !== null || repos.length === 0}
+                    className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-bold transition-all disabled:opacity-50"
+                  >
+                    {branchScan ? `Scanning ${branchScan.currentName} (${branchScan.current + 1}/${branchScan.total})…` : 'Scan All Branches'}
+                  </button>
+                </div>
+              </div>
+
+              {unmergedWork.length === 0 ? (
+                <p className="text-center text-slate-500 text-sm py-16">No unmerged branches older than {unmergedAgeDays} days in the scanned repositories.</p>
+              ) : (
+                <div className="bg-[#0f172a] border border-slate-800 rounded-2xl overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-900/60 text-[10px] uppercase tracking-widest text-slate-500">
+                      <tr>
+                        <th scope="col" className="text-left px-4 py-3">Repository</th>
+                        <th scope="col" className="text-left px-4 py-3">Branch</th>
+                        <th scope="col" className="text-right px-4 py-3">Unmerged commits</th>
+                        <th scope="col" className="text-right px-4 py-3">Behind</th>
+                        <th scope="col" className="text-right px-4 py-3">Last commit</th>
+                        <th scope="col" className="text-left px-4 py-3">Pull request</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800">
+                      {unmergedWork.map(({ repo, branch }) => (
+                        <tr key={`${repo.id}-${branch.name}`}>
+                          <td className="px-4 py-3 text-slate-300 truncate max-w-[12rem]">{repo.name}</td>
+                          <td className="px-4 py-3">
+                            <a href={getBranchUrl(repo.html_url, branch.name)} target="_blank" rel="noreferrer" className="font-mono text-xs text-indigo-300 hover:underline">{branch.name}</a>
+                          </td>
+                          <td className="px-4 py-3 text-right text-white font-bold">{branch.aheadBy}</td>
+                          <td className="px-4 py-3 text-right text-slate-400">{branch.behindBy}</td>
+                          <td className="px-4 py-3 text-right text-slate-400">{getBranchAgeDays(branch)}d ago</td>
+                          <td className="px-4 py-3">
+                            {branch.openPr
+                              ? <a href={branch.openPr.url} target="_blank" rel="noreferrer" className="text-xs text-emerald-400 hover:underline">#{branch.openPr.number} open</a>
+                              : <span className="text-xs text-amber-400">none</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
           {view === View.INVENTORY && inventoryAnalysis && (
             <div className="max-w-7xl mx-auto space-y-12 pb-32">
               {/* Strategic Header */}
@@ -1106,7 +2416,7 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                     onClick={() => {
                       const report = {
                         strategy: inventoryAnalysis,
-                        repos: [...repos, ...localRepos].map(r => {
+                        repos: allRepos.map(r => {
                           const cached = localStorage.getItem(`analysis_${r.id}`);
                           return {
                             ...r,
@@ -1126,6 +2436,13 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                   >
                     Download Full Report
                   </button>
+                  <button
+                    onClick={() => openPublishMetadata(repos)}
+                    disabled={preparingPublish}
+                    className="px-6 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-full text-xs font-bold uppercase tracking-widest border border-slate-700 transition-all disabled:opacity-50"
+                  >
+                    {preparingPublish ? 'Preparing…' : 'Publish Metadata'}
+                  </button>
                   <span className="px-4 py-2 bg-indigo-500/10 border border-indigo-500/20 rounded-full text-indigo-400 text-xs font-bold tracking-widest uppercase">Nexus Master Blueprint</span>
                 </div>
                 <div className="max-w-3xl">
@@ -1143,15 +2460,21 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                     <span className="w-10 h-10 bg-indigo-600 rounded-xl flex items-center justify-center shadow-lg shadow-indigo-600/20 text-sm">01</span>
                     Repository Action Registry
                   </h4>
-                  <div className="flex gap-4 text-xs">
+                  <div className="flex items-center gap-4 text-xs">
+                    <button
+                      onClick={openArchiveReview}
+                      className="px-4 py-1.5 bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 rounded-full font-bold uppercase tracking-widest border border-amber-500/20 transition-all"
+                    >
+                      Archive All Recommended
+                    </button>
                     <span className="flex items-center gap-1.5 text-emerald-400"><span className="w-2 h-2 bg-emerald-400 rounded-full"></span> Active</span>
                     <span className="flex items-center gap-1.5 text-amber-400"><span className="w-2 h-2 bg-amber-400 rounded-full"></span> Stalled</span>
                     <span className="flex items-center gap-1.5 text-slate-500"><span className="w-2 h-2 bg-slate-500 rounded-full"></span> Legacy</span>
                   </div>
                 </div>
                 <div className="grid grid-cols-1 gap-4">
-                  {(inventoryAnalysis.repoRegistry || []).map((item: any, i: number) => {
-                    const foundRepo = [...repos, ...localRepos].find(r => r.name === item.name);
+                  {(inventoryAnalysis.repoRegistry || []).map((item: RepoRegistryEntry, i: number) => {
+                    const foundRepo = findRegistryRepo(item, allRepos);
                     const cachedRaw = foundRepo ? localStorage.getItem(`analysis_${foundRepo.id}`) : null;
                     const cached = cachedRaw ? JSON.parse(cachedRaw) : null;
 
@@ -1174,6 +2497,14 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                                   item.priority === 'Medium' ? 'text-amber-400 bg-amber-400/10' :
                                     'text-emerald-400 bg-emerald-400/10'
                                   }`}>{item.priority} Priority</span>
+                                {foundRepo && archiveOutcomes[foundRepo.id] && (
+                                  <span
+                                    className={`text-[10px] font-bold uppercase tracking-widest px-2 py-0.5 rounded ${archiveOutcomes[foundRepo.id].status === 'failed' ? 'text-red-400 bg-red-400/10' : 'text-amber-400 bg-amber-400/10'}`}
+                                    title={archiveOutcomes[foundRepo.id].error}
+                                  >
+                                    {archiveOutcomes[foundRepo.id].status === 'failed' ? 'Archive failed' : archiveOutcomes[foundRepo.id].status} {new Date(archiveOutcomes[foundRepo.id].at).toLocaleDateString()}
+                                  </span>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -1309,6 +2640,28 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                 </section>
               </div>
 
+              {inventoryAnalysis.forkAudit?.length > 0 && (
+                <section className="bg-slate-900/80 border border-slate-800 p-10 rounded-[3rem]">
+                  <h4 className="text-xl font-bold text-white mb-2 flex items-center gap-3">
+                    <svg className="w-6 h-6 text-violet-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" /></svg>
+                    Fork Audit
+                  </h4>
+                  <p className="text-slate-500 text-sm mb-8">Forks are judged on their own commits only and kept out of the registry above.</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {inventoryAnalysis.forkAudit.map((fork: { name: string; upstream: string; verdict: string; reasoning: string }, i: number) => (
+                      <div key={i} className="bg-black/30 border border-slate-800 rounded-2xl p-5">
+                        <div className="flex items-center justify-between gap-3 mb-2">
+                          <span className="text-white font-bold truncate">{fork.name}</span>
+                          <span className={`text-[10px] font-bold uppercase tracking-widest px-2 py-0.5 rounded ${fork.verdict === 'Delete' ? 'text-red-400 bg-red-400/10' : 'text-violet-300 bg-violet-400/10'}`}>{fork.verdict}</span>
+                        </div>
+                        <p className="text-[10px] text-slate-500 font-mono mb-2">from {fork.upstream}</p>
+                        <p className="text-slate-400 text-sm leading-relaxed">{fork.reasoning}</p>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
+
               <div className="pt-20 flex justify-center">
                 <button
                   onClick={() => setView(View.DASHBOARD)}
@@ -1337,14 +2690,35 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                     <h3 id="modal-title" className="text-2xl font-bold text-white">{selectedRepo.name}</h3>
                     <p className="text-slate-400 text-sm">AI Analysis Report</p>
                   </div>
-                  <button
-                    ref={closeButtonRef}
-                    onClick={() => setSelectedRepo(null)}
-                    aria-label="Close analysis modal"
-                    className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
-                  >
-                    <svg className="w-6 h-6" aria-hidden="true" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                  </button>
+                  <div className="flex items-center gap-3">
+                    {analysis.status === 'success' && !selectedRepo.isLocal && (
+                      <button
+                        onClick={() => openPublishMetadata([selectedRepo])}
+                        disabled={preparingPublish}
+                        className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-xs font-bold transition-all border border-slate-700 disabled:opacity-50"
+                      >
+                        {preparingPublish ? 'Preparing…' : 'Publish Metadata'}
+                      </button>
+                    )}
+                    {!selectedRepo.isLocal && !quarantine.some(e => e.repoId === selectedRepo.id) && (
+                      <button
+                        onClick={() => quarantineRepo(selectedRepo)}
+                        disabled={archivingRepoId === selectedRepo.id || !!(capabilityBlocker(selectedRepo, 'archive') || capabilityBlocker(selectedRepo, 'delete'))}
+                        title={capabilityBlocker(selectedRepo, 'archive') || capabilityBlocker(selectedRepo, 'delete') || `Archive now and delete after ${QUARANTINE_DAYS} days`}
+                        className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-amber-300 rounded-lg text-xs font-bold transition-all border border-slate-700 disabled:opacity-50"
+                      >
+                        Quarantine
+                      </button>
+                    )}
+                    <button
+                      ref={closeButtonRef}
+                      onClick={() => setSelectedRepo(null)}
+                      aria-label="Close analysis modal"
+                      className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
+                    >
+                      <svg className="w-6 h-6" aria-hidden="true" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                  </div>
                 </div>
 
                 {/* Tab Switcher */}
@@ -1469,6 +2843,205 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                         </section>
                       </div>
 
+                      {/* Code Metrics */}
+                      {(selectedRepo.codeMetrics || forensicsById.get(selectedRepo.id)?.codeMetrics) && (() => {
+                        const metrics = (selectedRepo.codeMetrics || forensicsById.get(selectedRepo.id)?.codeMetrics)!;
+                        // LICENSE and docs are read from the full root listing; the rest may sit past the cut-off
+                        const projectFiles = [
+                          { label: 'CI', present: metrics.ciConfigs.length > 0, unknown: metrics.truncated },
+                          { label: 'LICENSE', present: metrics.hasLicense, unknown: false },
+                          { label: 'CONTRIBUTING', present: metrics.hasContributing, unknown: metrics.truncated },
+                          { label: 'Docs', present: metrics.hasDocs, unknown: false },
+                        ];
+                        const testsUnknown = metrics.truncated && metrics.testFiles === 0;
+                        return (
+                          <section>
+                            <div className="flex items-center gap-3 mb-4">
+                              <div className="w-8 h-8 bg-cyan-500/20 text-cyan-400 rounded-lg flex items-center justify-center">
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
+                              </div>
+                              <h4 className="text-sm font-bold text-slate-100 uppercase tracking-widest">Code Metrics</h4>
+                            </div>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className="text-2xl font-bold text-white">{metrics.sourceFiles.toLocaleString()}</div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">Source files</div>
+                              </div>
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className="text-2xl font-bold text-white">
+                                  {metrics.linesOfCode !== null ? metrics.linesOfCode.toLocaleString() : `${Math.round(metrics.sourceBytes / 1024).toLocaleString()} KB`}
+                                </div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">{metrics.linesOfCode !== null ? 'Lines of code' : 'Source size'}</div>
+                              </div>
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className={`font-bold ${testsUnknown ? 'text-sm text-amber-400 py-1.5' : 'text-2xl text-white'}`}>{testsUnknown ? 'unknown (listing incomplete)' : metrics.testFiles.toLocaleString()}</div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">Test files</div>
+                              </div>
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className="text-2xl font-bold text-white">{metrics.testToSourceRatio !== null ? metrics.testToSourceRatio.toFixed(2) : '—'}</div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">Tests per source file</div>
+                              </div>
+                            </div>
+                            <div className="mt-3 flex flex-wrap gap-2">
+                              {projectFiles.map(file => (
+                                <span
+                                  key={file.label}
+                                  className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-widest border ${file.present ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : file.unknown ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' : 'bg-slate-800/40 text-slate-500 border-slate-700/50 line-through'}`}
+                                >
+                                  {file.present || !file.unknown ? file.label : `${file.label}: unknown (listing incomplete)`}
+                                </span>
+                              ))}
+                            </div>
+                            {metrics.truncated && (
+                              <p className="mt-2 text-xs text-amber-400">The file listing was incomplete: counts cover only the files listed before the cut-off.</p>
+                            )}
+                            {metrics.ciConfigs.length > 0 && (
+                              <p className="mt-2 text-xs text-slate-500 font-mono truncate" title={metrics.ciConfigs.join(', ')}>{metrics.ciConfigs.join(', ')}</p>
+                            )}
+                          </section>
+                        );
+                      })()}
+
+                      {/* Issue & PR Health */}
+                      {forensicsById.get(selectedRepo.id)?.issueHealth && (() => {
+                        const health = forensicsById.get(selectedRepo.id)!.issueHealth!;
+                        return (
+                          <section>
+                            <div className="flex items-center gap-3 mb-4">
+                              <div className="w-8 h-8 bg-rose-500/20 text-rose-400 rounded-lg flex items-center justify-center">
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
+                              </div>
+                              <h4 className="text-sm font-bold text-slate-100 uppercase tracking-widest">Issue & PR Health</h4>
+                            </div>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className="text-2xl font-bold text-white">{health.openIssues}</div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">Open issues ({health.closedIssues} closed)</div>
+                              </div>
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className="text-2xl font-bold text-white">{health.unansweredIssues}</div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">
+                                  Unanswered issues{health.openIssues > (health.issuesSampled ?? 100) ? ` (newest ${health.issuesSampled ?? 100})` : ''}
+                                </div>
+                              </div>
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className="text-2xl font-bold text-white">{health.openPullRequests}</div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">Open pull requests</div>
+                              </div>
+                              <div className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <div className="text-2xl font-bold text-white">{health.medianOpenPrAgeDays !== null ? `${health.medianOpenPrAgeDays}d` : '—'}</div>
+                                <div className="text-[10px] uppercase tracking-widest text-slate-500">
+                                  Median unmerged PR age{health.openPullRequests > (health.pullRequestsSampled ?? 100) ? ` (oldest ${health.pullRequestsSampled ?? 100})` : ''}
+                                </div>
+                              </div>
+                            </div>
+                            {health.oldestOpenPr && (
+                              <p className="mt-3 text-xs text-slate-400">
+                                Oldest open PR:{' '}
+                                <a href={health.oldestOpenPr.url} target="_blank" rel="noreferrer" className="text-indigo-400 hover:text-indigo-300">
+                                  #{health.oldestOpenPr.number} {health.oldestOpenPr.title}
+                                </a>{' '}
+                                (opened {new Date(health.oldestOpenPr.createdAt).toLocaleDateString()})
+                              </p>
+                            )}
+                          </section>
+                        );
+                      })()}
+
+                      {/* Forgotten Branches */}
+                      {!selectedRepo.isLocal && (() => {
+                        const inventory = forensicsById.get(selectedRepo.id)?.branchInventory;
+                        const forgotten = getForgottenBranches(inventory, unmergedAgeDays);
+                        return (
+                          <section>
+                            <div className="flex items-center justify-between gap-3 mb-4">
+                              <div className="flex items-center gap-3">
+                                <div className="w-8 h-8 bg-violet-500/20 text-violet-400 rounded-lg flex items-center justify-center">
+                                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" /></svg>
+                                </div>
+                                <h4 className="text-sm font-bold text-slate-100 uppercase tracking-widest">Forgotten Branches</h4>
+                              </div>
+                              <button
+                                onClick={() => scanBranches([selectedRepo], true)}
+                                disabled={branchScan !== null}
+                                className="px-4 py-1.5 bg-violet-500/10 hover:bg-violet-500/20 text-violet-300 border border-violet-500/20 rounded-lg text-xs font-bold transition-all disabled:opacity-50"
+                              >
+                                {branchScan ? 'Scanning…' : inventory ? 'Rescan' : 'Scan Branches'}
+                              </button>
+                            </div>
+                            {!inventory ? (
+                              <p className="text-xs text-slate-500">Branches have not been scanned yet.</p>
+                            ) : (
+                              <>
+                                <p className="text-xs text-slate-500 mb-3">
+                                  {inventory.truncated ? `${inventory.branches.length} of ${inventory.totalBranches ?? `${MAX_BRANCHES}+`}` : inventory.branches.length} branches besides {inventory.defaultBranch}{inventory.truncated ? ' compared' : ''}, {inventory.branches.filter(b => b.aheadBy > 0).length} with unmerged commits.
+                                  Showing unmerged branches without an open pull request and no commits for {unmergedAgeDays}+ days.
+                                </p>
+                                {forgotten.length === 0 ? (
+                                  <p className="text-xs text-slate-600">No forgotten branches.</p>
+                                ) : (
+                                  <ul className="space-y-2">
+                                    {forgotten.map(branch => (
+                                      <li key={branch.name} className="flex items-center justify-between gap-3 bg-slate-800/40 px-4 py-2 rounded-xl border border-slate-700/50 text-xs">
+                                        <a href={getBranchUrl(selectedRepo.html_url, branch.name)} target="_blank" rel="noreferrer" className="font-mono text-violet-300 hover:underline truncate">{branch.name}</a>
+                                        <span className="text-slate-400 shrink-0">{branch.aheadBy} unmerged · {branch.behindBy} behind · {getBranchAgeDays(branch)}d old</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </>
+                            )}
+                          </section>
+                        );
+                      })()}
+
+                      {/* Completion Gaps & Tech Debt */}
+                      {(analysis.completionGap?.length || analysis.techDebtIndex?.length) ? (
+                        <section>
+                          <div className="flex items-center justify-between gap-3 mb-4">
+                            <div className="flex items-center gap-3">
+                              <div className="w-8 h-8 bg-sky-500/20 text-sky-400 rounded-lg flex items-center justify-center">
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+                              </div>
+                              <h4 className="text-sm font-bold text-slate-100 uppercase tracking-widest">Completion Gaps & Tech Debt</h4>
+                            </div>
+                            {!selectedRepo.isLocal && (
+                              <button
+                                onClick={openFileIssues}
+                                disabled={loadingIssueDrafts || !!capabilityBlocker(selectedRepo, 'issues')}
+                                title={capabilityBlocker(selectedRepo, 'issues') || undefined}
+                                className="px-4 py-1.5 bg-sky-500/10 hover:bg-sky-500/20 text-sky-400 border border-sky-500/20 rounded-lg text-xs font-bold transition-all disabled:opacity-50"
+                              >
+                                {loadingIssueDrafts ? 'Checking open issues…' : 'File as Issues'}
+                              </button>
+                            )}
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {(['completionGap', 'techDebtIndex'] as const).map(kind => (
+                              <div key={kind} className="bg-slate-800/40 p-4 rounded-xl border border-slate-700/50">
+                                <h5 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{FINDING_KIND_LABELS[kind]}</h5>
+                                <ul className="space-y-2">
+                                  {(analysis[kind] || []).map((finding, idx) => {
+                                    const issue = analysis.filedIssues?.find(f => f.kind === kind && f.finding === finding);
+                                    return (
+                                      <li key={idx} className="text-sm text-slate-300 flex gap-2">
+                                        <span className="text-sky-400 shrink-0">•</span>
+                                        <span>
+                                          {finding}
+                                          {issue && (
+                                            <a href={issue.url} target="_blank" rel="noreferrer" className="ml-2 text-xs text-emerald-400 font-bold hover:underline">#{issue.number}</a>
+                                          )}
+                                        </span>
+                                      </li>
+                                    );
+                                  })}
+                                </ul>
+                              </div>
+                            ))}
+                          </div>
+                        </section>
+                      ) : null}
+
                       {/* Reorg Advice */}
                       <section className="bg-slate-800/20 p-6 rounded-2xl border-l-4 border-indigo-600 shadow-lg shadow-indigo-600/5">
                         <div className="flex items-center gap-3 mb-3">
@@ -1597,6 +3170,12 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
                   onClick={() => { setView(View.DASHBOARD); setMobileMenuOpen(false); }}
                   icon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" /></svg>}
                 />
+                <NavItem
+                  active={view === View.BRANCHES}
+                  label="Branches"
+                  onClick={() => { setView(View.BRANCHES); setMobileMenuOpen(false); }}
+                  icon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" /></svg>}
+                />
                 <NavItem
                   active={view === View.SETTINGS}
                   label="Settings"
@@ -1615,16 +3194,64 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
       )}
 
       {/* Confirmation Modal for Deletion */}
+      {issueDrafts && selectedRepo && (
+        <FileIssuesModal
+          repoName={selectedRepo.full_name}
+          drafts={issueDrafts}
+          outcomes={issueOutcomes}
+          activeDraftId={filingDraftId}
+          isRunning={filingDraftId !== null}
+          onFile={runFileIssues}
+          onClose={() => setIssueDrafts(null)}
+        />
+      )}
+
+      {publishEntries && (
+        <PublishMetadataModal
+          entries={publishEntries}
+          outcomes={publishOutcomes}
+          activeRepoId={publishingRepoId}
+          isRunning={publishingRepoId !== null}
+          onPublish={runPublishMetadata}
+          onClose={() => setPublishEntries(null)}
+        />
+      )}
+
+      {archiveCandidates && (
+        <ArchiveReviewModal
+          candidates={archiveCandidates}
+          outcomes={archiveRunOutcomes}
+          activeRepoId={isBulkArchiving ? archivingRepoId : null}
+          isRunning={isBulkArchiving}
+          onConfirm={runBulkArchive}
+          onClose={() => setArchiveCandidates(null)}
+        />
+      )}
+
       <ConfirmModal
         isOpen={!!repoToDelete}
         title="Delete Repository"
-        message={`Are you sure you want to permanently delete "${repoToDelete?.name}"? This action is irreversible and will remove the project from GitHub and your local analysis cache.`}
+        message={`Are you sure you want to permanently delete "${repoToDelete?.name}"? This action is irreversible and will remove the project from GitHub. A zip of its default branch and a backup of its cached analysis and metadata are downloaded first; if the zip download fails, nothing is deleted, and the deletion is recorded in the audit log.`}
         confirmLabel="Delete Permanently"
         cancelLabel="Keep Repository"
         onConfirm={confirmDeleteRepo}
         onCancel={() => setRepoToDelete(null)}
         isDestructive={true}
         isLoading={deletingRepoId !== null}
+        confirmText={repoToDelete?.full_name}
+      />
+
+      <ConfirmModal
+        isOpen={confirmPurgeOpen}
+        title="Delete Quarantined Repositories"
+        message={`${purgeableRepos.length} repositor${purgeableRepos.length === 1 ? 'y has' : 'ies have'} stayed archived for ${QUARANTINE_DAYS} days: ${purgeableRepos.map(r => r.full_name).join(', ')}. A backup is downloaded first and every deletion is recorded in the audit log.`}
+        confirmLabel="Delete Permanently"
+        cancelLabel="Keep Them"
+        onConfirm={purgeQuarantine}
+        onCancel={() => setConfirmPurgeOpen(false)}
+        isDestructive={true}
+        isLoading={deletingRepoId !== null}
+        confirmText={`delete ${purgeableRepos.length} repositories`}
       />
 
       {/* Sync Overlay */}
@@ -1653,6 +3280,12 @@ ${Array.isArray(repos) ? repos.map((r: any) => `* **${r.name}** (${r.status || '
               <span className="text-slate-500">{syncProgress.current} / {syncProgress.total}</span>
             </div>
 
+            {rateLimit?.pausedUntil && (
+              <p className="mt-6 text-xs text-amber-400">
+                GitHub rate limit reached. Sync pauses and resumes automatically at {formatClockTime(rateLimit.pausedUntil)}.
+              </p>
+            )}
+
             <div className="mt-12">
               <LoadingSpinner size="sm" label="Synchronization in progress" />
             </div>
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import FocusTrap from 'focus-trap-react';
+import { ArchiveOutcome, GithubRepo } from '../types';
+
+export interface ArchiveCandidate {
+    repo: GithubRepo;
+    reason: string;
+}
+
+interface ArchiveReviewModalProps {
+    candidates: ArchiveCandidate[];
+    outcomes: Record<number, ArchiveOutcome>; // outcomes recorded during this run
+    activeRepoId: number | null;
+    isRunning: boolean;
+    onConfirm: (repos: GithubRepo[]) => void;
+    onClose: () => void;
+}
+
+export const ArchiveReviewModal: React.FC<ArchiveReviewModalProps> = ({
+    candidates,
+    outcomes,
+    activeRepoId,
+    isRunning,
+    onConfirm,
+    onClose,
+}) => {
+    const [selected, setSelected] = useState<Set<number>>(() => new Set(candidates.map(c => c.repo.id)));
+    const hasRun = !isRunning && Object.keys(outcomes).length > 0;
+
+    const toggle = (repoId: number) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(repoId)) next.delete(repoId);
+            else next.add(repoId);
+            return next;
+        });
+    };
+
+    const renderStatus = (repoId: number) => {
+        if (activeRepoId === repoId) {
+            return <span className="text-xs text-indigo-400 font-bold">Archiving…</span>;
+        }
+        const outcome = outcomes[repoId];
+        if (!outcome) return null;
+        if (outcome.status === 'failed') {
+            return <span className="text-xs text-red-400 font-bold" title={outcome.error}>Failed</span>;
+        }
+        return <span className="text-xs text-emerald-400 font-bold">Archived</span>;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+            <FocusTrap focusTrapOptions={{ allowOutsideClick: true }}>
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    aria-labelledby="archive-review-title"
+                    className="bg-[#0f172a] w-full max-w-2xl rounded-2xl border border-slate-800 shadow-2xl p-6 overflow-hidden flex flex-col max-h-[85vh]"
+                >
+                    <h3 id="archive-review-title" className="text-xl font-bold text-white mb-2">Archive Recommended Repositories</h3>
+                    <p className="text-slate-400 text-sm mb-4 leading-relaxed">
+                        Archived repositories become read-only on GitHub. Nothing is deleted and each one can be unarchived from its card.
+                    </p>
+
+                    {candidates.length === 0 ? (
+                        <p className="text-slate-500 text-sm py-8 text-center">No GitHub repositories are currently recommended for archiving.</p>
+                    ) : (
+                        <ul className="overflow-y-auto space-y-2 mb-6 pr-1">
+                            {candidates.map(({ repo, reason }) => (
+                                <li key={repo.id} className="flex items-start gap-3 bg-slate-900/50 border border-slate-800 rounded-xl p-3">
+                                    <input
+                                        type="checkbox"
+                                        id={`archive-candidate-${repo.id}`}
+                                        checked={selected.has(repo.id)}
+                                        onChange={() => toggle(repo.id)}
+                                        disabled={isRunning || hasRun}
+                                        className="mt-1 accent-indigo-500"
+                                    />
+                                    <label htmlFor={`archive-candidate-${repo.id}`} className="flex-1 min-w-0 cursor-pointer">
+                                        <span className="block text-sm font-bold text-white truncate">{repo.full_name}</span>
+                                        <span className="block text-xs text-slate-500">{reason}</span>
+                                        {outcomes[repo.id]?.error && (
+                                            <span className="block text-xs text-red-400 mt-1">{outcomes[repo.id].error}</span>
+                                        )}
+                                    </label>
+                                    {renderStatus(repo.id)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="flex gap-3 justify-end mt-auto">
+                        <button
+                            onClick={onClose}
+                            disabled={isRunning}
+                            className="px-4 py-2 text-sm font-semibold text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+                        >
+                            {hasRun ? 'Close' : 'Cancel'}
+                        </button>
+                        {!hasRun && (
+                            <button
+                                onClick={() => onConfirm(candidates.filter(c => selected.has(c.repo.id)).map(c => c.repo))}
+                                disabled={isRunning || selected.size === 0}
+                                className="px-6 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 bg-amber-600 hover:bg-amber-500 text-white shadow-lg shadow-amber-600/20 disabled:opacity-50"
+                            >
+                                {isRunning && (
+                                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                                )}
+                                Archive {selected.size} Repositor{selected.size === 1 ? 'y' : 'ies'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </FocusTrap>
+        </div>
+    );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import FocusTrap from 'focus-trap-react';
 
 interface ConfirmModalProps {
@@ -11,6 +11,7 @@ interface ConfirmModalProps {
     onCancel: () => void;
     isDestructive?: boolean;
     isLoading?: boolean;
+    confirmText?: string; // when set, this text must be typed before the confirm button is enabled
 }
 
 export const ConfirmModal: React.FC<ConfirmModalProps> = ({
@@ -23,9 +24,21 @@ export const ConfirmModal: React.FC<ConfirmModalProps> = ({
     onCancel,
     isDestructive = false,
     isLoading = false,
+    confirmText,
 }) => {
+    const [typed, setTyped] = useState('');
+    const [wasOpen, setWasOpen] = useState(isOpen);
+
+    // Start with an empty confirmation every time the modal opens
+    if (isOpen !== wasOpen) {
+        setWasOpen(isOpen);
+        setTyped('');
+    }
+
     if (!isOpen) return null;
 
+    const confirmBlocked = confirmText !== undefined && typed !== confirmText;
+
     return (
         <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
             <FocusTrap focusTrapOptions={{ allowOutsideClick: true }}>
@@ -41,6 +54,24 @@ export const ConfirmModal: React.FC<ConfirmModalProps> = ({
                         {message}
                     </p>
 
+                    {confirmText !== undefined && (
+                        <div className="mb-6">
+                            <label htmlFor="confirm-text" className="block text-xs text-slate-400 mb-2">
+                                Type <span className="font-mono font-bold text-white">{confirmText}</span> to confirm
+                            </label>
+                            <input
+                                id="confirm-text"
+                                type="text"
+                                value={typed}
+                                onChange={(e) => setTyped(e.target.value)}
+                                disabled={isLoading}
+                                autoComplete="off"
+                                spellCheck={false}
+                                className="w-full bg-[#020617] border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-red-600 disabled:opacity-60"
+                            />
+                        </div>
+                    )}
+
                     <div className="flex gap-3 justify-end">
                         <button
                             onClick={onCancel}
@@ -51,7 +82,7 @@ export const ConfirmModal: React.FC<ConfirmModalProps> = ({
                         </button>
                         <button
                             onClick={onConfirm}
-                            disabled={isLoading}
+                            disabled={isLoading || confirmBlocked}
                             className={`px-6 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 ${isDestructive
                                     ? 'bg-red-600 hover:bg-red-500 text-white shadow-lg shadow-red-600/20'
                                     : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-600/20'
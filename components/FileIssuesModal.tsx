@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import FocusTrap from 'focus-trap-react';
+import { FINDING_KIND_LABELS, IssueDraft } from '../lib/issueDrafts';
+
+export type IssueFilingOutcome =
+    | { status: 'filed'; number: number; url: string }
+    | { status: 'failed'; error: string };
+
+interface FileIssuesModalProps {
+    repoName: string;
+    drafts: IssueDraft[];
+    outcomes: Record<string, IssueFilingOutcome>;
+    activeDraftId: string | null;
+    isRunning: boolean;
+    onFile: (drafts: IssueDraft[]) => void;
+    onClose: () => void;
+}
+
+export const FileIssuesModal: React.FC<FileIssuesModalProps> = ({
+    repoName,
+    drafts,
+    outcomes,
+    activeDraftId,
+    isRunning,
+    onFile,
+    onClose,
+}) => {
+    const [edits, setEdits] = useState<Record<string, { title: string; body: string; labels: string }>>(() =>
+        Object.fromEntries(drafts.map(d => [d.id, { title: d.title, body: d.body, labels: d.labels.join(', ') }]))
+    );
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(drafts.filter(d => !d.match).map(d => d.id)));
+    const hasRun = !isRunning && Object.keys(outcomes).length > 0;
+    const locked = isRunning || hasRun;
+
+    const toggle = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const edit = (id: string, field: 'title' | 'body' | 'labels', value: string) => {
+        setEdits(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+    };
+
+    const submit = () => {
+        onFile(drafts
+            .filter(d => selected.has(d.id) && edits[d.id].title.trim())
+            .map(d => ({
+                ...d,
+                title: edits[d.id].title.trim(),
+                body: edits[d.id].body,
+                labels: edits[d.id].labels.split(',').map(l => l.trim()).filter(Boolean),
+            })));
+    };
+
+    const renderStatus = (draft: IssueDraft) => {
+        if (activeDraftId === draft.id) {
+            return <span className="text-xs text-indigo-400 font-bold shrink-0">Filing…</span>;
+        }
+        const outcome = outcomes[draft.id];
+        if (outcome?.status === 'filed') {
+            return <a href={outcome.url} target="_blank" rel="noreferrer" className="text-xs text-emerald-400 font-bold shrink-0 hover:underline">Filed #{outcome.number}</a>;
+        }
+        if (outcome?.status === 'failed') {
+            return <span className="text-xs text-red-400 font-bold shrink-0" title={outcome.error}>Failed</span>;
+        }
+        if (draft.match) {
+            return <a href={draft.match.url} target="_blank" rel="noreferrer" className="text-xs text-slate-400 font-bold shrink-0 hover:underline">Already open #{draft.match.number}</a>;
+        }
+        return null;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+            <FocusTrap focusTrapOptions={{ allowOutsideClick: true }}>
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    aria-labelledby="file-issues-title"
+                    className="bg-[#0f172a] w-full max-w-3xl rounded-2xl border border-slate-800 shadow-2xl p-6 overflow-hidden flex flex-col max-h-[85vh]"
+                >
+                    <h3 id="file-issues-title" className="text-xl font-bold text-white mb-2">File Findings as Issues</h3>
+                    <p className="text-slate-400 text-sm mb-4 leading-relaxed">
+                        Pick the findings to open in <span className="font-mono text-slate-300">{repoName}</span>. Findings that already have a matching open issue are skipped.
+                    </p>
+
+                    {drafts.length === 0 ? (
+                        <p className="text-slate-500 text-sm py-8 text-center">This assessment has no completion gaps or tech-debt findings.</p>
+                    ) : (
+                        <div className="overflow-y-auto space-y-3 mb-6 pr-1">
+                            {drafts.map(draft => {
+                                const outcome = outcomes[draft.id];
+                                return (
+                                    <div key={draft.id} className={`bg-slate-900/50 border border-slate-800 rounded-xl p-4 ${draft.match ? 'opacity-60' : ''}`}>
+                                        <div className="flex items-center gap-3 mb-2">
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`File issue: ${draft.title}`}
+                                                checked={selected.has(draft.id)}
+                                                onChange={() => toggle(draft.id)}
+                                                disabled={locked || !!draft.match}
+                                                className="accent-indigo-500"
+                                            />
+                                            <span className={`text-[10px] font-bold uppercase tracking-widest px-2 py-0.5 rounded ${draft.kind === 'completionGap' ? 'text-sky-400 bg-sky-400/10' : 'text-amber-400 bg-amber-400/10'}`}>
+                                                {FINDING_KIND_LABELS[draft.kind]}
+                                            </span>
+                                            <span className="flex-1" />
+                                            {renderStatus(draft)}
+                                        </div>
+                                        {selected.has(draft.id) ? (
+                                            <div className="space-y-2 pl-7">
+                                                <input
+                                                    type="text"
+                                                    aria-label="Issue title"
+                                                    value={edits[draft.id].title}
+                                                    onChange={(e) => edit(draft.id, 'title', e.target.value)}
+                                                    disabled={locked}
+                                                    className="w-full bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+                                                />
+                                                <textarea
+                                                    aria-label="Issue body"
+                                                    value={edits[draft.id].body}
+                                                    onChange={(e) => edit(draft.id, 'body', e.target.value)}
+                                                    disabled={locked}
+                                                    rows={3}
+                                                    className="w-full bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-xs text-slate-300 font-mono focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+                                                />
+                                                <input
+                                                    type="text"
+                                                    aria-label="Issue labels, comma separated"
+                                                    placeholder="labels, comma separated"
+                                                    value={edits[draft.id].labels}
+                                                    onChange={(e) => edit(draft.id, 'labels', e.target.value)}
+                                                    disabled={locked}
+                                                    className="w-full bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-xs text-indigo-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+                                                />
+                                                {outcome?.status === 'failed' && (
+                                                    <p className="text-xs text-red-400">{outcome.error}</p>
+                                                )}
+                                            </div>
+                                        ) : (
+                                            <p className="text-sm text-slate-400 pl-7">{draft.finding}</p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 justify-end mt-auto">
+                        <button
+                            onClick={onClose}
+                            disabled={isRunning}
+                            className="px-4 py-2 text-sm font-semibold text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+                        >
+                            {hasRun ? 'Close' : 'Cancel'}
+                        </button>
+                        {!hasRun && (
+                            <button
+                                onClick={submit}
+                                disabled={isRunning || selected.size === 0}
+                                className="px-6 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-600/20 disabled:opacity-50"
+                            >
+                                {isRunning && (
+                                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                                )}
+                                File {selected.size} Issue{selected.size === 1 ? '' : 's'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </FocusTrap>
+        </div>
+    );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import FocusTrap from 'focus-trap-react';
+import { GithubRepo, PublishableMetadata } from '../types';
+import { MetadataField, getChangedFields, toTopic } from '../lib/metadataProposal';
+
+export interface MetadataPublishEntry {
+    repo: GithubRepo;
+    current: PublishableMetadata;
+    proposed: PublishableMetadata;
+}
+
+export interface MetadataPublishOutcome {
+    status: 'published' | 'failed';
+    error?: string;
+}
+
+interface PublishMetadataModalProps {
+    entries: MetadataPublishEntry[];
+    outcomes: Record<number, MetadataPublishOutcome>;
+    activeRepoId: number | null;
+    isRunning: boolean;
+    onPublish: (updates: { repo: GithubRepo; update: Partial<PublishableMetadata> }[]) => void;
+    onClose: () => void;
+}
+
+const FIELD_LABELS: Record<MetadataField, string> = {
+    description: 'Description',
+    topics: 'Topics',
+    homepage: 'Homepage',
+};
+
+const formatValue = (field: MetadataField, value: PublishableMetadata) =>
+    field === 'topics' ? value.topics.join(', ') : value[field];
+
+const toDraft = (value: PublishableMetadata): Record<MetadataField, string> => ({
+    description: value.description,
+    topics: formatValue('topics', value),
+    homepage: value.homepage,
+});
+
+export const PublishMetadataModal: React.FC<PublishMetadataModalProps> = ({
+    entries,
+    outcomes,
+    activeRepoId,
+    isRunning,
+    onPublish,
+    onClose,
+}) => {
+    // Raw input text per field, so a topic list can be typed freely before it is split
+    const [drafts, setDrafts] = useState<Record<number, Record<MetadataField, string>>>(() =>
+        Object.fromEntries(entries.map(e => [e.repo.id, toDraft(e.proposed)]))
+    );
+    const [accepted, setAccepted] = useState<Record<number, MetadataField[]>>(() =>
+        Object.fromEntries(entries.map(e => [e.repo.id, getChangedFields(e.current, e.proposed)]))
+    );
+    const hasRun = !isRunning && Object.keys(outcomes).length > 0;
+
+    const toggleField = (repoId: number, field: MetadataField) => {
+        setAccepted(prev => {
+            const fields = prev[repoId] || [];
+            return { ...prev, [repoId]: fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field] };
+        });
+    };
+
+    const editField = (repoId: number, field: MetadataField, value: string) => {
+        setDrafts(prev => ({ ...prev, [repoId]: { ...prev[repoId], [field]: value } }));
+    };
+
+    const updates = entries
+        .map(({ repo }) => {
+            const update: Partial<PublishableMetadata> = {};
+            (accepted[repo.id] || []).forEach(field => {
+                const value = drafts[repo.id][field].trim();
+                if (field === 'topics') update.topics = value.split(',').map(toTopic).filter(Boolean);
+                else update[field] = value;
+            });
+            return { repo, update };
+        })
+        .filter(({ update }) => Object.keys(update).length > 0);
+
+    const renderStatus = (repoId: number) => {
+        if (activeRepoId === repoId) {
+            return <span className="text-xs text-indigo-400 font-bold">Publishing…</span>;
+        }
+        const outcome = outcomes[repoId];
+        if (!outcome) return null;
+        return outcome.status === 'failed'
+            ? <span className="text-xs text-red-400 font-bold" title={outcome.error}>Failed</span>
+            : <span className="text-xs text-emerald-400 font-bold">Published</span>;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+            <FocusTrap focusTrapOptions={{ allowOutsideClick: true }}>
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    aria-labelledby="publish-metadata-title"
+                    className="bg-[#0f172a] w-full max-w-3xl rounded-2xl border border-slate-800 shadow-2xl p-6 overflow-hidden flex flex-col max-h-[85vh]"
+                >
+                    <h3 id="publish-metadata-title" className="text-xl font-bold text-white mb-2">Publish Metadata to GitHub</h3>
+                    <p className="text-slate-400 text-sm mb-4 leading-relaxed">
+                        Review the proposed values, edit them if needed and untick anything you want to leave as it is.
+                    </p>
+
+                    {entries.length === 0 ? (
+                        <p className="text-slate-500 text-sm py-8 text-center">Every analyzed repository already matches its proposed metadata.</p>
+                    ) : (
+                        <div className="overflow-y-auto space-y-4 mb-6 pr-1">
+                            {entries.map(({ repo, current, proposed }) => (
+                                <div key={repo.id} className="bg-slate-900/50 border border-slate-800 rounded-xl p-4">
+                                    <div className="flex items-center justify-between mb-3">
+                                        <span className="text-sm font-bold text-white truncate">{repo.full_name}</span>
+                                        {renderStatus(repo.id)}
+                                    </div>
+                                    {outcomes[repo.id]?.error && (
+                                        <p className="text-xs text-red-400 mb-2">{outcomes[repo.id].error}</p>
+                                    )}
+                                    <div className="space-y-3">
+                                        {getChangedFields(current, proposed).map(field => {
+                                            const inputId = `publish-${repo.id}-${field}`;
+                                            return (
+                                                <div key={field} className="flex items-start gap-3">
+                                                    <input
+                                                        type="checkbox"
+                                                        aria-label={`Publish ${FIELD_LABELS[field].toLowerCase()} for ${repo.name}`}
+                                                        checked={(accepted[repo.id] || []).includes(field)}
+                                                        onChange={() => toggleField(repo.id, field)}
+                                                        disabled={isRunning || hasRun}
+                                                        className="mt-2 accent-indigo-500"
+                                                    />
+                                                    <div className="flex-1 min-w-0">
+                                                        <label htmlFor={inputId} className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">
+                                                            {FIELD_LABELS[field]}
+                                                        </label>
+                                                        <p className="text-xs text-red-400/80 line-through mb-1 break-words">
+                                                            {formatValue(field, current) || '(empty)'}
+                                                        </p>
+                                                        <input
+                                                            id={inputId}
+                                                            type="text"
+                                                            value={drafts[repo.id][field]}
+                                                            onChange={(e) => editField(repo.id, field, e.target.value)}
+                                                            disabled={isRunning || hasRun}
+                                                            className="w-full bg-[#020617] border border-emerald-500/30 rounded-lg px-3 py-1.5 text-xs text-emerald-300 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:opacity-60"
+                                                        />
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 justify-end mt-auto">
+                        <button
+                            onClick={onClose}
+                            disabled={isRunning}
+                            className="px-4 py-2 text-sm font-semibold text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+                        >
+                            {hasRun ? 'Close' : 'Cancel'}
+                        </button>
+                        {!hasRun && (
+                            <button
+                                onClick={() => onPublish(updates)}
+                                disabled={isRunning || updates.length === 0}
+                                className="px-6 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-600/20 disabled:opacity-50"
+                            >
+                                {isRunning && (
+                                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                                )}
+                                Publish {updates.length} Repositor{updates.length === 1 ? 'y' : 'ies'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </FocusTrap>
+        </div>
+    );
+};
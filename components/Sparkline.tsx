@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  label: string;
+}
+
+export const Sparkline: React.FC<SparklineProps> = ({ values, width = 120, height = 24, label }) => {
+  if (values.length < 2) return null;
+
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, idx) => `${(idx * step).toFixed(1)},${(height - 1 - (value / max) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label={label} className="overflow-visible">
+      <title>{label}</title>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+    </svg>
+  );
+};
@@ -1,5 +1,5 @@
 import { test, expect } from '@playwright/test';
-import { mockGitHubAPI, createMockRepo } from './helpers/apiMocks';
+import { mockGitHubAPI, mockOrgReposAPI, mockArchiveAPI, mockDeleteAPI, createMockRepo } from './helpers/apiMocks';
 import { login, waitForRepos, waitForToast, waitForNavigation, waitForErrorBanner, focusInput } from './helpers/testUtils';
 
 test.describe('RepoNexus Application', () => {
@@ -399,4 +399,115 @@ test.describe('RepoNexus Application', () => {
     // Now alpha should still be first (alphabetically)
     await expect(repoCards.first()).toContainText('alpha');
   });
+
+  test('should merge organization sources and filter by source', async ({ page }) => {
+    await mockGitHubAPI(page, {
+      repos: [createMockRepo({ id: 1, name: 'personal-repo', full_name: 'testuser/personal-repo' })],
+      delay: 300,
+    });
+    await mockOrgReposAPI(page, 'acme', [
+      createMockRepo({ id: 2, name: 'org-repo', full_name: 'acme/org-repo' }),
+    ]);
+
+    await page.click('button:has-text("Settings")');
+    await page.fill('#github-username', 'testuser');
+    await page.fill('#github-token', 'ghp_testtoken123');
+    await page.click('button:has-text("Add organization or account")');
+    await page.fill('input[placeholder="org-name"]', 'acme');
+    await page.locator('input[id^="source-token-"]').fill('ghp_orgtoken456');
+    await page.click('button[type="submit"]');
+
+    await waitForNavigation(page, 'Dashboard');
+    await waitForRepos(page, 2);
+
+    await page.selectOption('#filter-source', { label: 'acme' });
+    await waitForRepos(page, 1);
+
+    await expect(page.locator('text=org-repo')).toBeVisible();
+    await expect(page.locator('text=personal-repo')).not.toBeVisible();
+  });
+
+  test('should archive and unarchive a repository from its card', async ({ page }) => {
+    await mockGitHubAPI(page, {
+      repos: [createMockRepo({ id: 1, name: 'old-repo', full_name: 'testuser/old-repo' })],
+      delay: 300,
+    });
+    await mockArchiveAPI(page, 'testuser/old-repo');
+
+    await login(page, 'testuser', 'ghp_testtoken123');
+    await waitForNavigation(page, 'Dashboard');
+    await waitForRepos(page, 1);
+
+    await page.click('button[aria-label="Archive repository old-repo"]');
+    await waitForToast(page, 'Repository "old-repo" archived');
+    await expect(page.locator('.grid >> text=Archived')).toBeVisible();
+
+    await page.click('button[aria-label="Unarchive repository old-repo"]');
+    await waitForToast(page, 'Repository "old-repo" unarchived');
+    await expect(page.locator('.grid >> text=Archived')).not.toBeVisible();
+  });
+
+  test('should disable delete when the token lacks the delete_repo scope', async ({ page }) => {
+    await mockGitHubAPI(page, {
+      repos: [createMockRepo({ id: 1, name: 'keep-repo', full_name: 'testuser/keep-repo' })],
+      delay: 300,
+      scopes: 'repo',
+    });
+
+    await login(page, 'testuser', 'ghp_testtoken123');
+    await waitForNavigation(page, 'Dashboard');
+    await waitForRepos(page, 1);
+
+    await expect(page.locator('button[aria-label="Delete repository keep-repo"]')).toBeDisabled();
+    await expect(page.locator('button[aria-label="Archive repository keep-repo"]')).toBeEnabled();
+
+    await page.click('button:has-text("Settings")');
+    await expect(page.locator('[aria-label="Token capabilities"]')).toContainText('✗ Delete repositories');
+  });
+
+  test('should require the full repo name before deleting and log the deletion', async ({ page }) => {
+    await mockGitHubAPI(page, {
+      repos: [createMockRepo({ id: 1, name: 'doomed-repo', full_name: 'testuser/doomed-repo' })],
+      delay: 300,
+    });
+    await mockDeleteAPI(page, 'testuser/doomed-repo');
+
+    await login(page, 'testuser', 'ghp_testtoken123');
+    await waitForNavigation(page, 'Dashboard');
+    await waitForRepos(page, 1);
+
+    await page.click('button[aria-label="Delete repository doomed-repo"]');
+    const confirmButton = page.locator('[role="alertdialog"] button:has-text("Delete Permanently")');
+    await expect(confirmButton).toBeDisabled();
+
+    await page.fill('#confirm-text', 'doomed-repo');
+    await expect(confirmButton).toBeDisabled();
+
+    await page.fill('#confirm-text', 'testuser/doomed-repo');
+    const download = page.waitForEvent('download');
+    await confirmButton.click();
+    expect((await download).suggestedFilename()).toContain('testuser__doomed-repo');
+    await waitForToast(page, 'Repository "doomed-repo" deleted');
+
+    await page.click('button:has-text("Settings")');
+    await expect(page.locator('section[aria-labelledby="audit-log-title"]')).toContainText('testuser/doomed-repo');
+  });
+
+  test('should not delete a repository whose code backup cannot be downloaded', async ({ page }) => {
+    await mockGitHubAPI(page, {
+      repos: [createMockRepo({ id: 1, name: 'doomed-repo', full_name: 'testuser/doomed-repo' })],
+      delay: 300,
+    });
+    await mockDeleteAPI(page, 'testuser/doomed-repo', 500);
+
+    await login(page, 'testuser', 'ghp_testtoken123');
+    await waitForNavigation(page, 'Dashboard');
+    await waitForRepos(page, 1);
+
+    await page.click('button[aria-label="Delete repository doomed-repo"]');
+    await page.fill('#confirm-text', 'testuser/doomed-repo');
+    await page.click('[role="alertdialog"] button:has-text("Delete Permanently")');
+    await waitForToast(page, 'Not deleted: downloading the code backup failed');
+    await waitForRepos(page, 1);
+  });
 });
@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync } from 'fs';
+import { parseManifest } from '../lib/dependencyParsers';
+
+const readFixture = (fileName: string) =>
+  readFileSync(new URL(`./fixtures/manifests/${fileName}`, import.meta.url), 'utf-8');
+
+test.describe('Dependency manifest parsing', () => {
+  test('should read every package.json section with its scope', () => {
+    expect(parseManifest('package.json', readFixture('package.json'))).toEqual([
+      { name: 'react', version: '^19.0.0', scope: 'prod' },
+      { name: 'lodash', version: '4.17.21', scope: 'prod' },
+      { name: 'typescript', version: '~5.8.2', scope: 'dev' },
+      { name: 'react-dom', version: '>=18', scope: 'peer' },
+      { name: 'fsevents', version: '^2.3.3', scope: 'optional' },
+    ]);
+  });
+
+  test('should read Cargo.toml inline, dotted, table and target dependencies but not workspace ones', () => {
+    expect(parseManifest('Cargo.toml', readFixture('Cargo.toml'))).toEqual([
+      { name: 'serde', version: '1.0', scope: 'prod' },
+      { name: 'anyhow', version: '1', scope: 'prod' },
+      { name: 'tokio', version: '1.38', scope: 'prod' },
+      { name: 'local-helper', version: null, scope: 'prod' },
+      { name: 'regex', version: '1.10', scope: 'prod' },
+      { name: 'proptest', version: '1.4', scope: 'dev' },
+      { name: 'cc', version: '1.0', scope: 'build' },
+      { name: 'libc', version: '0.2', scope: 'prod' },
+    ]);
+  });
+
+  test('should read PEP 621, dependency group and Poetry dependencies from pyproject.toml', () => {
+    expect(parseManifest('pyproject.toml', readFixture('pyproject.toml'))).toEqual([
+      { name: 'requests', version: '>=2.31', scope: 'prod' },
+      { name: 'click', version: null, scope: 'prod' },
+      { name: 'tomli', version: '>=1.1', scope: 'prod' },
+      { name: 'sphinx', version: '>=7', scope: 'optional' },
+      { name: 'pytest', version: '>=8', scope: 'dev' },
+      { name: 'httpx', version: '^0.27', scope: 'optional' },
+      { name: 'ruff', version: '^0.5', scope: 'dev' },
+    ]);
+  });
+
+  test('should keep Gemfile group scopes across conditionals closed by end', () => {
+    expect(parseManifest('Gemfile', readFixture('Gemfile'))).toEqual([
+      { name: 'rails', version: '~> 7.1, >= 7.1.3', scope: 'prod' },
+      { name: 'pg', version: null, scope: 'prod' },
+      { name: 'redis', version: '~> 5.0', scope: 'prod' },
+      { name: 'rspec-rails', version: '~> 6.1', scope: 'dev' },
+      { name: 'listen', version: null, scope: 'dev' },
+      { name: 'factory_bot', version: null, scope: 'dev' },
+      { name: 'puma', version: '>= 6', scope: 'prod' },
+      { name: 'rubocop', version: null, scope: 'dev' },
+    ]);
+  });
+
+  test('should not treat inherited object keys as manifest names', () => {
+    expect(parseManifest('constructor', '{}')).toEqual([]);
+  });
+});
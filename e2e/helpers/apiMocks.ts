@@ -5,6 +5,7 @@ export interface MockGitHubAPIOptions {
   delay?: number;
   status?: number;
   errorMessage?: string;
+  scopes?: string; // X-OAuth-Scopes reported for the token check on save
 }
 
 /**
@@ -18,9 +19,19 @@ export async function mockGitHubAPI(
     repos = [],
     delay = 500,
     status = 200,
-    errorMessage
+    errorMessage,
+    scopes = 'repo, delete_repo'
   } = options;
 
+  // Token check run when Settings are saved
+  await page.route('**/user', async route => {
+    await route.fulfill({
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'X-OAuth-Scopes': scopes },
+      body: JSON.stringify({ login: 'testuser' }),
+    });
+  });
+
   // FIX: Match actual endpoint pattern /users/{username}/repos (not /user/repos)
   await page.route('**/users/*/repos*', async route => {
     // Add realistic network delay to prevent timing issues
@@ -94,3 +105,67 @@ export async function mockReadmeAPI(
 
   await page.waitForTimeout(50);
 }
+
+/**
+ * Mock the organization repositories endpoint for an additional source
+ */
+export async function mockOrgReposAPI(
+  page: Page,
+  org: string,
+  repos: ReturnType<typeof createMockRepo>[] = [],
+  delay: number = 300
+) {
+  await page.route(`**/orgs/${org}/repos*`, async route => {
+    if (delay > 0) {
+      await page.waitForTimeout(delay);
+    }
+
+    await route.fulfill({
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(repos),
+    });
+  });
+
+  await page.waitForTimeout(50);
+}
+
+/**
+ * Mock the repository PATCH endpoint used to archive and unarchive
+ */
+export async function mockArchiveAPI(page: Page, repoFullName: string, status: number = 200) {
+  await page.route(`https://api.github.com/repos/${repoFullName}`, async route => {
+    if (route.request().method() !== 'PATCH') {
+      await route.fallback();
+      return;
+    }
+
+    const { archived } = route.request().postDataJSON();
+    await route.fulfill({
+      status,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(status === 200 ? { full_name: repoFullName, archived } : { message: 'Must have admin rights to Repository.' }),
+    });
+  });
+
+  await page.waitForTimeout(50);
+}
+
+/**
+ * Mock the repository DELETE endpoint and the zipball downloaded before it
+ */
+export async function mockDeleteAPI(page: Page, repoFullName: string, zipballStatus: number = 200) {
+  await page.route(`https://api.github.com/repos/${repoFullName}/zipball/**`, async route => {
+    await route.fulfill({ status: zipballStatus, contentType: 'application/zip', body: zipballStatus === 200 ? 'PK\x05\x06' : '' });
+  });
+
+  await page.route(`https://api.github.com/repos/${repoFullName}`, async route => {
+    if (route.request().method() !== 'DELETE') {
+      await route.fallback();
+      return;
+    }
+    await route.fulfill({ status: 204 });
+  });
+
+  await page.waitForTimeout(50);
+}
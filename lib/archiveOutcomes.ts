@@ -0,0 +1,61 @@
+import { ArchiveOutcome, GithubRepo, ImmediateAction, RepoRegistryEntry } from '../types';
+
+/**
+ * localStorage key holding the latest archive outcome per repository
+ */
+const ARCHIVE_OUTCOMES_KEY = 'archive_outcomes';
+
+/**
+ * Load recorded archive outcomes, keyed by repository ID
+ */
+export function loadArchiveOutcomes(): Record<number, ArchiveOutcome> {
+  try {
+    const saved = localStorage.getItem(ARCHIVE_OUTCOMES_KEY);
+    return saved ? JSON.parse(saved) as Record<number, ArchiveOutcome> : {};
+  } catch (error) {
+    console.error('Error reading archive outcomes:', error);
+    return {};
+  }
+}
+
+/**
+ * Record the outcome of archive attempts, replacing any earlier outcome for the same repositories
+ * @param outcomes - Outcomes to store
+ * @returns All recorded outcomes after the merge
+ */
+export function recordArchiveOutcomes(outcomes: ArchiveOutcome[]): Record<number, ArchiveOutcome> {
+  const merged = { ...loadArchiveOutcomes() };
+  outcomes.forEach(outcome => { merged[outcome.repoId] = outcome; });
+  try {
+    localStorage.setItem(ARCHIVE_OUTCOMES_KEY, JSON.stringify(merged));
+  } catch (error) {
+    console.error('Error writing archive outcomes:', error);
+  }
+  return merged;
+}
+
+/**
+ * Check whether the AI recommended archiving a repository, either in its own assessment
+ * or in the Master Nexus Strategy registry entry. The registry's structured actionType decides when present;
+ * only entries from strategies generated before it existed fall back to the free-text action.
+ * @param immediateAction - The cached analysis' immediateAction, if any
+ * @param registryItem - The repository's registry entry, if any
+ */
+export function isArchiveRecommended(immediateAction: ImmediateAction | undefined, registryItem: RepoRegistryEntry | undefined): boolean {
+  if (immediateAction === 'Archive') return true;
+  if (!registryItem) return false;
+  return registryItem.actionType ? registryItem.actionType === 'Archive' : /\barchive\b/i.test(registryItem.action || '');
+}
+
+/**
+ * Find the repository a registry entry is about: by full name, else by name when exactly one repository has it.
+ * Older strategies have no fullName, and the model may miscopy one.
+ * @param item - The registry entry
+ * @param repos - Repositories to search
+ */
+export function findRegistryRepo(item: RepoRegistryEntry, repos: GithubRepo[]): GithubRepo | undefined {
+  const byFullName = item.fullName ? repos.find(r => r.full_name === item.fullName) : undefined;
+  if (byFullName) return byFullName;
+  const byName = repos.filter(r => r.name === item.name);
+  return byName.length === 1 ? byName[0] : undefined;
+}
@@ -0,0 +1,45 @@
+import { BranchInfo, BranchInventory } from '../types';
+
+/**
+ * Default age in days after which unmerged work counts as forgotten
+ */
+export const DEFAULT_UNMERGED_AGE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days since a branch's last commit, or null if the date is unknown
+ */
+export function getBranchAgeDays(branch: BranchInfo, now: number = Date.now()): number | null {
+  if (!branch.lastCommitAt) return null;
+  return Math.floor((now - new Date(branch.lastCommitAt).getTime()) / DAY_MS);
+}
+
+/**
+ * Link to a branch on GitHub. Each path segment is encoded, so names with `#`, `?` or `%` still resolve.
+ * @param htmlUrl - The repository's web URL
+ * @param branchName - Branch name, which may contain slashes
+ */
+export function getBranchUrl(htmlUrl: string, branchName: string): string {
+  return `${htmlUrl}/tree/${branchName.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Branches with commits that never reached the default branch and have not moved for a while
+ * @param inventory - A repository's branch inventory
+ * @param minAgeDays - Minimum days since the branch's last commit
+ * @returns Matching branches, oldest first
+ */
+export function getUnmergedBranches(inventory: BranchInventory | undefined, minAgeDays: number, now: number = Date.now()): BranchInfo[] {
+  if (!inventory) return [];
+  return inventory.branches
+    .filter(b => b.aheadBy > 0 && (getBranchAgeDays(b, now) ?? 0) >= minAgeDays)
+    .sort((a, b) => (getBranchAgeDays(b, now) ?? 0) - (getBranchAgeDays(a, now) ?? 0));
+}
+
+/**
+ * Unmerged branches nobody has opened a pull request for: abandoned work
+ */
+export function getForgottenBranches(inventory: BranchInventory | undefined, minAgeDays: number, now: number = Date.now()): BranchInfo[] {
+  return getUnmergedBranches(inventory, minAgeDays, now).filter(b => !b.openPr);
+}
@@ -0,0 +1,34 @@
+import { CiStatus, WorkflowSummary } from '../types';
+
+export type CiFilter = 'all' | 'passing' | 'failing' | 'unknown' | 'none' | 'attention';
+
+/**
+ * Run conclusions that count as a broken build
+ */
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'startup_failure', 'action_required'];
+
+/**
+ * Overall CI status from the latest finished run of every active workflow.
+ * Only a repo without active workflows has no CI. Cancelled or skipped runs do not decide the status,
+ * so active workflows without a deciding run leave it unknown.
+ */
+export function getCiStatus(workflows: WorkflowSummary[]): CiStatus {
+  const active = workflows.filter(w => w.state === 'active');
+  if (active.length === 0) return 'none';
+  const conclusions = active
+    .filter(w => w.lastRun)
+    .map(w => w.lastRun!.conclusion || '');
+  if (conclusions.some(c => FAILED_CONCLUSIONS.includes(c))) return 'failing';
+  if (conclusions.includes('success')) return 'passing';
+  return 'unknown';
+}
+
+/**
+ * Check a CI status against the dashboard filter. Repos whose CI has not been read yet only match "all".
+ */
+export function matchesCiFilter(status: CiStatus | undefined, filter: CiFilter): boolean {
+  if (filter === 'all') return true;
+  if (!status) return false;
+  if (filter === 'attention') return status !== 'passing';
+  return status === filter;
+}
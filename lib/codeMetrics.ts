@@ -0,0 +1,77 @@
+import { CodeMetrics, RepoTreeEntry, SourceFile } from '../types';
+import { getLanguageForFile, isExcludedFromLanguageStats } from './languageDetection';
+
+/**
+ * Test folders and file naming conventions across the common ecosystems
+ */
+const TEST_PATTERNS = [
+  /(^|\/)(tests?|__tests__|specs?|e2e|testing)\//i,
+  /\.(test|spec|e2e)\.\w+$/i,
+  /_(test|spec)\.\w+$/i, // Go, Python, Ruby
+  /(^|\/)test_[^/]+\.py$/i,
+  /(Test|Tests|Spec|IT)\.(java|kt|cs|swift|scala|groovy)$/,
+];
+
+/**
+ * CI configuration files and folders of the common hosted CI services
+ */
+const CI_PATTERNS = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/,
+  /^\.gitlab-ci\.ya?ml$/,
+  /^\.circleci\/config\.ya?ml$/,
+  /^\.travis\.ya?ml$/,
+  /^azure-pipelines\.ya?ml$/,
+  /^bitbucket-pipelines\.ya?ml$/,
+  /^\.drone\.ya?ml$/,
+  /^Jenkinsfile$/,
+];
+
+/**
+ * Whether a path is a test file
+ * @param path - Slash-separated path relative to the repository root
+ */
+export function isTestPath(path: string): boolean {
+  return TEST_PATTERNS.some(pattern => pattern.test(path));
+}
+
+/**
+ * Turn a remote tree listing into source files. Languages come from file names alone and lines are unknown.
+ */
+export function toRemoteSourceFiles(entries: RepoTreeEntry[]): SourceFile[] {
+  return entries
+    .filter(entry => entry.type === 'blob')
+    .map(entry => ({
+      path: entry.path,
+      size: entry.size || 0,
+      language: isExcludedFromLanguageStats(entry.path) ? null : getLanguageForFile(entry.path.split('/').pop() || ''),
+      lines: null,
+    }));
+}
+
+/**
+ * Compute size, test and documentation metrics from a repository's files
+ * @param files - Files from the local source walk or a remote tree listing
+ * @param linesKnown - Whether `lines` were counted (local walk) or not (remote listing)
+ * @param truncated - Whether the walk or listing stopped before covering every file
+ * @param rootNames - Every file and folder name at the repository root, listed in full even when `files` is not
+ */
+export function computeCodeMetrics(files: SourceFile[], linesKnown: boolean, truncated: boolean, rootNames: string[]): CodeMetrics {
+  const code = files.filter(file => file.language);
+  const tests = code.filter(file => isTestPath(file.path));
+  const source = code.filter(file => !isTestPath(file.path));
+
+  return {
+    sourceFiles: source.length,
+    sourceBytes: source.reduce((sum, file) => sum + file.size, 0),
+    linesOfCode: linesKnown ? source.reduce((sum, file) => sum + (file.lines || 0), 0) : null,
+    testFiles: tests.length,
+    testToSourceRatio: source.length ? Math.round((tests.length / source.length) * 100) / 100 : null,
+    ciConfigs: files.map(file => file.path).filter(path => CI_PATTERNS.some(pattern => pattern.test(path))),
+    hasLicense: rootNames.some(name => /^(licen[cs]e|copying)(\.[\w-]+)?$/i.test(name)),
+    hasContributing: rootNames.some(name => /^contributing(\.\w+)?$/i.test(name))
+      || files.some(file => /^(\.github|docs)\/contributing(\.\w+)?$/i.test(file.path)),
+    hasDocs: rootNames.some(name => /^(docs?|documentation)$/i.test(name)),
+    truncated,
+    collectedAt: Date.now(),
+  };
+}
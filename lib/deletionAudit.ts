@@ -0,0 +1,67 @@
+import { AnalysisResult, DeletionAuditEntry, DeletionBackup, GithubRepo, RepoForensics } from '../types';
+
+/**
+ * localStorage key holding the deletion audit log, oldest entry first
+ */
+const DELETION_AUDIT_KEY = 'deletion_audit';
+
+/**
+ * Load the deletion audit log
+ */
+export function loadDeletionAudit(): DeletionAuditEntry[] {
+  try {
+    const saved = localStorage.getItem(DELETION_AUDIT_KEY);
+    return saved ? JSON.parse(saved) as DeletionAuditEntry[] : [];
+  } catch (error) {
+    console.error('Error reading deletion audit log:', error);
+    return [];
+  }
+}
+
+/**
+ * Append entries to the deletion audit log
+ * @param entries - Deletion attempts to record
+ * @returns The full log after the append
+ */
+export function recordDeletions(entries: DeletionAuditEntry[]): DeletionAuditEntry[] {
+  const log = [...loadDeletionAudit(), ...entries];
+  try {
+    localStorage.setItem(DELETION_AUDIT_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.error('Error writing deletion audit log:', error);
+  }
+  return log;
+}
+
+/**
+ * Gather everything RepoNexus knows about a repository so it survives the deletion
+ * @param repo - Repository about to be deleted
+ * @param analysis - Its cached analysis, if any
+ * @param forensics - Its cached forensics
+ * @param archiveFile - Name of the zip of the default branch downloaded alongside
+ */
+export function buildDeletionBackup(
+  repo: GithubRepo,
+  analysis: AnalysisResult | null,
+  forensics: RepoForensics,
+  archiveFile: string
+): DeletionBackup {
+  return { repo, analysis, forensics, archiveFile, savedAt: Date.now() };
+}
+
+/**
+ * File name for the backup of one or more repositories deleted together
+ */
+export function getBackupFileName(repos: GithubRepo[], at: number = Date.now()): string {
+  const stamp = new Date(at).toISOString().replace(/[:.]/g, '-');
+  const subject = repos.length === 1 ? repos[0].full_name.replace('/', '__') : `${repos.length}-repositories`;
+  return `repo-nexus-backup-${subject}-${stamp}.json`;
+}
+
+/**
+ * File name for the zip of a repository's default branch
+ */
+export function getArchiveFileName(repo: GithubRepo, at: number = Date.now()): string {
+  const stamp = new Date(at).toISOString().replace(/[:.]/g, '-');
+  return `repo-nexus-backup-${repo.full_name.replace('/', '__')}-${repo.default_branch}-${stamp}.zip`;
+}
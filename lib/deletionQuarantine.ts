@@ -0,0 +1,78 @@
+import { GithubRepo, QuarantineEntry } from '../types';
+
+/**
+ * localStorage key holding the quarantine queue
+ */
+const QUARANTINE_KEY = 'deletion_quarantine';
+
+/**
+ * How long a repository stays archived in quarantine before it may be deleted
+ */
+export const QUARANTINE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load the quarantine queue
+ */
+export function loadQuarantine(): QuarantineEntry[] {
+  try {
+    const saved = localStorage.getItem(QUARANTINE_KEY);
+    return saved ? JSON.parse(saved) as QuarantineEntry[] : [];
+  } catch (error) {
+    console.error('Error reading quarantine queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the quarantine queue
+ * @returns The saved queue
+ */
+export function saveQuarantine(queue: QuarantineEntry[]): QuarantineEntry[] {
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error writing quarantine queue:', error);
+  }
+  return queue;
+}
+
+/**
+ * Add a repository to the queue, restarting its clock if it was already queued
+ */
+export function addToQuarantine(queue: QuarantineEntry[], repo: GithubRepo, at: number = Date.now()): QuarantineEntry[] {
+  return [
+    ...queue.filter(e => e.repoId !== repo.id),
+    { repoId: repo.id, fullName: repo.full_name, sourceId: repo.sourceId, quarantinedAt: at }
+  ];
+}
+
+/**
+ * Days left before a queued repository may be deleted; 0 once the quarantine is over
+ */
+export function getQuarantineDaysLeft(entry: QuarantineEntry, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((entry.quarantinedAt + QUARANTINE_DAYS * DAY_MS - now) / DAY_MS));
+}
+
+/**
+ * Drop queued repositories that are listed as no longer archived. The quarantine needs the full period
+ * of continuous archiving, so a repo archived again later starts over.
+ * @param queue - The quarantine queue
+ * @param repos - Repositories as last loaded from GitHub
+ */
+export function releaseUnarchived(queue: QuarantineEntry[], repos: GithubRepo[]): QuarantineEntry[] {
+  return queue.filter(entry => {
+    const repo = repos.find(r => r.id === entry.repoId);
+    return !repo || repo.archived;
+  });
+}
+
+/**
+ * Whether a queued repository may be deleted: the quarantine is over and the repo is still archived
+ * @param entry - Queue entry
+ * @param repo - The repository as last loaded from GitHub, if it is still listed
+ */
+export function isQuarantineComplete(entry: QuarantineEntry, repo: GithubRepo | undefined, now: number = Date.now()): boolean {
+  return !!repo?.archived && getQuarantineDaysLeft(entry, now) === 0;
+}
@@ -0,0 +1,476 @@
+import { Dependency, DependencyScope } from '../types';
+
+/**
+ * What a manifest parser reports per dependency; the manifest name and lockfile version are added by the caller
+ */
+export type DeclaredDependency = Omit<Dependency, 'manifest' | 'resolved'>;
+
+/**
+ * Lockfiles and the manifest whose dependencies they pin
+ */
+export const LOCKFILES: Record<string, string> = {
+  'package-lock.json': 'package.json',
+  'yarn.lock': 'package.json',
+  'pnpm-lock.yaml': 'package.json',
+  'Cargo.lock': 'Cargo.toml',
+  'poetry.lock': 'pyproject.toml',
+  'uv.lock': 'pyproject.toml',
+  'Gemfile.lock': 'Gemfile',
+  'composer.lock': 'composer.json',
+};
+
+// ---------------------------------------------------------------------------
+// TOML
+// ---------------------------------------------------------------------------
+
+interface TomlEntry {
+  table: string; // header of the enclosing table, e.g. `tool.poetry.dependencies`
+  key: string;
+  value: string; // raw value; multi-line arrays and inline tables are joined
+}
+
+/**
+ * Remove a `#` comment that is not inside a string
+ */
+function stripTomlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Open brackets and braces minus closed ones, outside strings
+ */
+function bracketDepth(value: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth;
+}
+
+/**
+ * Key/value pairs of a TOML file with the table each belongs to. Enough of TOML for manifests and lockfiles.
+ */
+function parseTomlEntries(text: string): TomlEntry[] {
+  const entries: TomlEntry[] = [];
+  const lines = text.split('\n');
+  let table = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripTomlComment(lines[i]).trim();
+    if (!line) continue;
+
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      table = header[1].replace(/\s*\.\s*/g, '.').replace(/["']/g, '').trim();
+      continue;
+    }
+
+    const pair = line.match(/^("[^"]+"|'[^']+'|[A-Za-z0-9_.-]+)\s*=\s*(.*)$/);
+    if (!pair) continue;
+    let value = pair[2];
+    while (bracketDepth(value) > 0 && i + 1 < lines.length) {
+      value += '\n' + stripTomlComment(lines[++i]);
+    }
+    entries.push({ table, key: pair[1].replace(/^["']|["']$/g, ''), value: value.trim() });
+  }
+  return entries;
+}
+
+/**
+ * Quoted strings in a TOML value, e.g. the items of an array
+ */
+function tomlStrings(value: string): string[] {
+  return Array.from(value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g), m => m[1] ?? m[2]);
+}
+
+/**
+ * Version of a TOML dependency value: `"1.0"` or `{ version = "1.0", ... }`
+ */
+function tomlVersion(value: string): string | null {
+  if (/^["']/.test(value)) return tomlStrings(value)[0] || null;
+  const inline = value.match(/\bversion\s*=\s*(["'])([^"']*)\1/);
+  return inline ? inline[2] : null;
+}
+
+// ---------------------------------------------------------------------------
+// Manifests
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a PEP 508 requirement (`requests[socks]>=2.0; python_version<"3.8"`) into name and constraint
+ */
+function parsePep508(requirement: string): { name: string; version: string | null } | null {
+  const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match) return null;
+  const constraint = match[2].split(';')[0].trim().replace(/^\((.*)\)$/, '$1').trim();
+  // `name @ https://...` points at an archive or repository rather than a version
+  return { name: match[1], version: constraint && !constraint.startsWith('@') ? constraint : null };
+}
+
+function parsePackageJson(text: string): DeclaredDependency[] {
+  const pkg = JSON.parse(text);
+  const sections: [string, DependencyScope][] = [
+    ['dependencies', 'prod'],
+    ['devDependencies', 'dev'],
+    ['peerDependencies', 'peer'],
+    ['optionalDependencies', 'optional'],
+  ];
+  return sections.flatMap(([section, scope]) =>
+    Object.entries<string>(pkg[section] || {}).map(([name, version]) => ({ name, version: version || null, scope })));
+}
+
+function parseRequirementsTxt(text: string): DeclaredDependency[] {
+  return text.split('\n')
+    .map(line => line.replace(/\s+#.*/, '').replace(/^#.*/, '').trim())
+    // Options (-r, -e, --index-url) and direct URLs name no package
+    .filter(line => line && !line.startsWith('-') && !/^[a-z+]+:\/\//i.test(line))
+    .map(parsePep508)
+    .filter((dep): dep is { name: string; version: string | null } => dep !== null)
+    .map(dep => ({ ...dep, scope: 'prod' as const }));
+}
+
+function parsePyprojectToml(text: string): DeclaredDependency[] {
+  const deps: DeclaredDependency[] = [];
+  const fromRequirements = (value: string, scope: DependencyScope) => tomlStrings(value).forEach(req => {
+    const dep = parsePep508(req);
+    if (dep) deps.push({ ...dep, scope });
+  });
+
+  for (const { table, key, value } of parseTomlEntries(text)) {
+    if (table === 'project' && key === 'dependencies') {
+      fromRequirements(value, 'prod');
+    } else if (table === 'project.optional-dependencies') {
+      fromRequirements(value, 'optional');
+    } else if (table === 'dependency-groups') {
+      // PEP 735 groups may include other groups as tables; only plain requirements are read
+      fromRequirements(value, 'dev');
+    } else if (table === 'tool.poetry.dependencies' && key !== 'python') {
+      deps.push({ name: key, version: tomlVersion(value), scope: /optional\s*=\s*true/.test(value) ? 'optional' : 'prod' });
+    } else if (table === 'tool.poetry.dev-dependencies' || /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(table)) {
+      deps.push({ name: key, version: tomlVersion(value), scope: 'dev' });
+    }
+  }
+  return deps;
+}
+
+function parseCargoToml(text: string): DeclaredDependency[] {
+  const deps = new Map<string, DeclaredDependency>();
+  const scopeOf = (section: string): DependencyScope =>
+    section === 'dev-dependencies' ? 'dev' : section === 'build-dependencies' ? 'build' : 'prod';
+
+  for (const { table, key, value } of parseTomlEntries(text)) {
+    // `[dependencies]`, `[target.'cfg(unix)'.dependencies]` or `[dependencies.serde]`
+    const section = table.match(/(?:^|\.)((?:dev-|build-)?dependencies)(?:\.([^.]+))?$/);
+    if (!section || table.startsWith('workspace.')) continue;
+
+    if (section[2]) {
+      const existing = deps.get(section[2]);
+      deps.set(section[2], {
+        name: section[2],
+        version: key === 'version' ? tomlStrings(value)[0] || null : existing?.version ?? null,
+        scope: scopeOf(section[1]),
+      });
+    } else {
+      // Dotted keys such as `serde.version = "1"` belong to the part before the dot
+      const [name, field] = key.split('.');
+      if (field && field !== 'version') {
+        if (!deps.has(name)) deps.set(name, { name, version: null, scope: scopeOf(section[1]) });
+        continue;
+      }
+      deps.set(name, { name, version: field ? tomlStrings(value)[0] || null : tomlVersion(value), scope: scopeOf(section[1]) });
+    }
+  }
+  return Array.from(deps.values());
+}
+
+function parseGoMod(text: string): DeclaredDependency[] {
+  const deps: DeclaredDependency[] = [];
+  let inBlock = false;
+  for (const raw of text.split('\n')) {
+    // Indirect requirements are transitive, not chosen by the project
+    if (/\/\/\s*indirect\b/.test(raw)) continue;
+    const line = raw.replace(/\/\/.*/, '').trim();
+    if (/^require\s*\($/.test(line)) { inBlock = true; continue; }
+    if (inBlock && line === ')') { inBlock = false; continue; }
+    const spec = inBlock ? line : line.match(/^require\s+(.+)$/)?.[1];
+    const [name, version] = spec?.split(/\s+/) || [];
+    if (name) deps.push({ name, version: version || null, scope: 'prod' });
+  }
+  return deps;
+}
+
+function parseGemfile(text: string): DeclaredDependency[] {
+  const deps: DeclaredDependency[] = [];
+  const devGroup = /:(development|test)\b|["'](development|test)["']/;
+  // Scope of each open block closed by `end`; blocks other than `group` inherit the outer scope
+  const blocks: DependencyScope[] = [];
+  const keywordBlock = /^(if|unless|case|begin|while|until|def|class|module)\b/;
+
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/#.*/, '').trim();
+    const outer = blocks[blocks.length - 1] || 'prod';
+
+    if (/\bdo(\s*\|[^|]*\|)?$/.test(line)) {
+      blocks.push(/^group\b/.test(line) ? (devGroup.test(line) ? 'dev' : outer) : outer);
+      continue;
+    }
+    // `if ENV[...]`, `platforms ... do` and friends open a block too, unless closed on the same line
+    if (keywordBlock.test(line) && !/\bend$/.test(line)) {
+      blocks.push(outer);
+      continue;
+    }
+    if (/^end\b/.test(line)) {
+      blocks.pop();
+      continue;
+    }
+
+    const gem = line.match(/^gem\s*\(?\s*["']([^"']+)["'](.*)$/);
+    if (!gem) continue;
+    const constraints = Array.from(gem[2].matchAll(/,\s*["']([^"']+)["']/g), m => m[1]).filter(v => /^[~<>=!\d]/.test(v));
+    const inlineGroup = gem[2].match(/\bgroups?:\s*(\[[^\]]*\]|:\w+|["'][^"']*["'])/);
+    deps.push({
+      name: gem[1],
+      version: constraints.join(', ') || null,
+      scope: inlineGroup ? (devGroup.test(inlineGroup[1]) ? 'dev' : 'prod') : outer,
+    });
+  }
+  return deps;
+}
+
+function parsePomXml(text: string): DeclaredDependency[] {
+  const xml = text.replace(/<!--[\s\S]*?-->/g, '');
+  const properties = new Map<string, string>();
+  const propertiesBlock = xml.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || '';
+  for (const m of propertiesBlock.matchAll(/<([\w.-]+)>([^<]*)<\/\1>/g)) properties.set(m[1], m[2].trim());
+
+  // Managed versions and build plugins are not dependencies of the project itself
+  const body = xml
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '');
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`))?.[1] || null;
+
+  const deps: DeclaredDependency[] = [];
+  for (const [, block] of body.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = tag(block, 'groupId');
+    const artifactId = tag(block, 'artifactId');
+    if (!groupId || !artifactId) continue;
+    const scope = tag(block, 'scope');
+    deps.push({
+      name: `${groupId}:${artifactId}`,
+      version: tag(block, 'version')?.replace(/\$\{([^}]+)\}/g, (ref, name) => properties.get(name) || ref) || null,
+      scope: scope === 'test' ? 'dev' : scope === 'provided' ? 'build' : tag(block, 'optional') === 'true' ? 'optional' : 'prod',
+    });
+  }
+  return deps;
+}
+
+function parseBuildGradle(text: string): DeclaredDependency[] {
+  const deps: DeclaredDependency[] = [];
+  const scopeOf = (configuration: string): DependencyScope => {
+    if (/test/i.test(configuration)) return 'dev';
+    if (/^(compileOnly|annotationProcessor|kapt|ksp|classpath)$/.test(configuration)) return 'build';
+    return 'prod';
+  };
+
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/\/\/.*/, '').trim();
+    const configuration = line.match(/^(\w+)\s*\(?/)?.[1];
+    if (!configuration || !/(implementation|api|compile|runtimeOnly|compileOnly|annotationProcessor|kapt|ksp|classpath)$/i.test(configuration)) continue;
+
+    // `implementation 'group:artifact:1.0'`, `implementation("group:artifact:1.0")`, `platform("...")`
+    const coordinates = line.match(/["']([^"':\s]+):([^"':\s]+)(?::([^"'@\s]+))?(?:@\w+)?["']/);
+    // `implementation group: 'g', name: 'a', version: '1'`
+    const named = line.match(/group\s*[:=]\s*["']([^"']+)["'].*?name\s*[:=]\s*["']([^"']+)["'](?:.*?version\s*[:=]\s*["']([^"']+)["'])?/);
+    const match = coordinates || named;
+    if (match) deps.push({ name: `${match[1]}:${match[2]}`, version: match[3] || null, scope: scopeOf(configuration) });
+  }
+  return deps;
+}
+
+function parseComposerJson(text: string): DeclaredDependency[] {
+  const manifest = JSON.parse(text);
+  // The PHP runtime and its extensions are platform requirements, not packages
+  const isPackage = (name: string) => name.includes('/');
+  return [
+    ...Object.entries<string>(manifest.require || {}).filter(([name]) => isPackage(name)).map(([name, version]) => ({ name, version, scope: 'prod' as const })),
+    ...Object.entries<string>(manifest['require-dev'] || {}).filter(([name]) => isPackage(name)).map(([name, version]) => ({ name, version, scope: 'dev' as const })),
+  ];
+}
+
+const MANIFEST_PARSERS: Record<string, (text: string) => DeclaredDependency[]> = {
+  'package.json': parsePackageJson,
+  'requirements.txt': parseRequirementsTxt,
+  'pyproject.toml': parsePyprojectToml,
+  'Cargo.toml': parseCargoToml,
+  'go.mod': parseGoMod,
+  'Gemfile': parseGemfile,
+  'pom.xml': parsePomXml,
+  'build.gradle': parseBuildGradle,
+  'build.gradle.kts': parseBuildGradle,
+  'composer.json': parseComposerJson,
+};
+
+/**
+ * Manifests with a dependency parser
+ */
+export const MANIFEST_FILES = Object.keys(MANIFEST_PARSERS);
+
+/**
+ * Extract the dependencies a manifest declares
+ * @param fileName - Manifest file name, one of MANIFEST_FILES
+ * @param text - File contents
+ * @throws Error if a JSON manifest is malformed
+ */
+export function parseManifest(fileName: string, text: string): DeclaredDependency[] {
+  return Object.hasOwn(MANIFEST_PARSERS, fileName) ? MANIFEST_PARSERS[fileName](text) : [];
+}
+
+// ---------------------------------------------------------------------------
+// Lockfiles
+// ---------------------------------------------------------------------------
+
+function parsePackageLock(text: string): Map<string, string> {
+  const lock = JSON.parse(text);
+  const versions = new Map<string, string>();
+  // v2/v3 list installed paths; only top-level `node_modules/<name>` entries are the project's own
+  for (const [path, entry] of Object.entries<{ version?: string }>(lock.packages || {})) {
+    const name = path.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/)?.[1];
+    if (name && entry.version) versions.set(name, entry.version);
+  }
+  for (const [name, entry] of Object.entries<{ version?: string }>(lock.dependencies || {})) {
+    if (!versions.has(name) && entry.version) versions.set(name, entry.version);
+  }
+  return versions;
+}
+
+/**
+ * Parse yarn.lock (classic and Berry). Versions are keyed by name and by each `name@range` spec.
+ */
+function parseYarnLock(text: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let specs: string[] = [];
+  for (const line of text.split('\n')) {
+    if (/^\S.*:$/.test(line) && !line.startsWith('#') && !line.startsWith('__metadata')) {
+      specs = line.slice(0, -1).split(',').map(spec => spec.trim().replace(/^"|"$/g, ''));
+      continue;
+    }
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?$/)?.[1];
+    if (!version || !specs.length) continue;
+    for (const spec of specs) {
+      const at = spec.lastIndexOf('@');
+      if (at <= 0) continue;
+      const name = spec.slice(0, at);
+      if (!versions.has(name)) versions.set(name, version);
+      versions.set(`${name}@${spec.slice(at + 1).replace(/^npm:/, '')}`, version);
+    }
+    specs = [];
+  }
+  return versions;
+}
+
+function parsePnpmLock(text: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  const clean = (value: string) => value.trim().replace(/^['"]|['"]$/g, '').replace(/\(.*$/, '');
+  let sectionIndent = -1;
+  let current: string | null = null;
+
+  for (const line of text.split('\n')) {
+    const indent = line.search(/\S/);
+    if (indent < 0) continue;
+    const trimmed = line.trim();
+    // Everything after the importers describes transitive packages
+    if (indent === 0 && /^(packages|snapshots):/.test(trimmed)) break;
+
+    if (/^(dependencies|devDependencies|optionalDependencies):$/.test(trimmed)) {
+      sectionIndent = indent;
+      current = null;
+      continue;
+    }
+    if (sectionIndent < 0) continue;
+    if (indent <= sectionIndent) {
+      sectionIndent = -1;
+      continue;
+    }
+
+    const entry = trimmed.match(/^['"]?([^'"]+?)['"]?:\s*(.*)$/);
+    if (!entry) continue;
+    if (indent === sectionIndent + 2) {
+      current = entry[1];
+      if (entry[2] && !versions.has(current)) versions.set(current, clean(entry[2]));
+    } else if (current && entry[1] === 'version' && !versions.has(current)) {
+      versions.set(current, clean(entry[2]));
+    }
+  }
+  return versions;
+}
+
+/**
+ * `[[package]]` name/version pairs, as in Cargo.lock, poetry.lock and uv.lock
+ */
+function parseTomlPackageLock(text: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let name: string | null = null;
+  for (const { table, key, value } of parseTomlEntries(text)) {
+    if (table !== 'package') continue;
+    if (key === 'name') name = tomlStrings(value)[0] || null;
+    else if (key === 'version' && name && !versions.has(name)) versions.set(name, tomlStrings(value)[0]);
+  }
+  return versions;
+}
+
+function parseGemfileLock(text: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  // Four spaces is a locked gem; deeper lines are that gem's own requirements
+  for (const m of text.matchAll(/^ {4}([^\s(]+) \(([^)]+)\)$/gm)) {
+    if (!versions.has(m[1])) versions.set(m[1], m[2].replace(/-[a-z].*$/, ''));
+  }
+  return versions;
+}
+
+function parseComposerLock(text: string): Map<string, string> {
+  const lock = JSON.parse(text);
+  return new Map([...(lock.packages || []), ...(lock['packages-dev'] || [])]
+    .map((pkg: { name: string; version: string }) => [pkg.name, pkg.version.replace(/^v(?=\d)/, '')]));
+}
+
+const LOCKFILE_PARSERS: Record<string, (text: string) => Map<string, string>> = {
+  'package-lock.json': parsePackageLock,
+  'yarn.lock': parseYarnLock,
+  'pnpm-lock.yaml': parsePnpmLock,
+  'Cargo.lock': parseTomlPackageLock,
+  'poetry.lock': parseTomlPackageLock,
+  'uv.lock': parseTomlPackageLock,
+  'Gemfile.lock': parseGemfileLock,
+  'composer.lock': parseComposerLock,
+};
+
+/**
+ * Exact versions pinned by a lockfile
+ * @param fileName - Lockfile name, a key of LOCKFILES
+ * @param text - File contents
+ * @returns Version per package name; yarn.lock also maps each `name@range` spec
+ */
+export function parseLockfile(fileName: string, text: string): Map<string, string> {
+  return Object.hasOwn(LOCKFILE_PARSERS, fileName) ? LOCKFILE_PARSERS[fileName](text) : new Map();
+}
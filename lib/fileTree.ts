@@ -0,0 +1,146 @@
+import { RepoTreeEntry } from '../types';
+
+/**
+ * Folders that hold dependencies, build output or caches rather than authored code.
+ * Shared by the local scanner and the remote tree fetch so both prune the same noise.
+ */
+export const NOISE_FOLDERS = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'vendor',
+  'target',
+  'coverage',
+  '__pycache__',
+  'venv',
+  '.venv',
+  '.next',
+  '.nuxt',
+  '.cache',
+  '.git'
+]);
+
+/**
+ * Max directory depth listed in full before a folder is collapsed into a count
+ */
+const SUMMARY_MAX_DEPTH = 3;
+
+/**
+ * Max number of lines in a tree summary
+ */
+const SUMMARY_MAX_LINES = 400;
+
+/**
+ * Check whether a path passes through a noise folder
+ * @param path - Slash-separated path relative to the repository root
+ */
+export function isNoisePath(path: string): boolean {
+  return path.split('/').some(segment => NOISE_FOLDERS.has(segment));
+}
+
+/**
+ * Drop every entry that lives inside a noise folder
+ */
+export function pruneNoiseEntries(entries: RepoTreeEntry[]): RepoTreeEntry[] {
+  return entries.filter(entry => !isNoisePath(entry.path));
+}
+
+interface DirNode {
+  path: string;
+  dirs: Map<string, DirNode>;
+  files: string[];
+  fileCount: number; // includes files in nested folders
+}
+
+function createDirNode(path: string): DirNode {
+  return { path, dirs: new Map(), files: [], fileCount: 0 };
+}
+
+function buildDirTree(entries: RepoTreeEntry[]): DirNode {
+  const root = createDirNode('');
+
+  for (const entry of entries) {
+    const segments = entry.path.split('/');
+    const dirSegments = entry.type === 'tree' ? segments : segments.slice(0, -1);
+    let node = root;
+
+    for (const segment of dirSegments) {
+      let child = node.dirs.get(segment);
+      if (!child) {
+        child = createDirNode(node.path ? `${node.path}/${segment}` : segment);
+        node.dirs.set(segment, child);
+      }
+      if (entry.type === 'blob') node.fileCount++;
+      node = child;
+    }
+
+    if (entry.type === 'blob') {
+      node.files.push(entry.path);
+      node.fileCount++;
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Describe the file extensions inside a collapsed folder, most common first
+ */
+function describeExtensions(node: DirNode): string {
+  const counts = new Map<string, number>();
+  const visit = (n: DirNode) => {
+    n.files.forEach(file => {
+      const name = file.slice(file.lastIndexOf('/') + 1);
+      const ext = name.includes('.') ? name.slice(name.lastIndexOf('.')) : name;
+      counts.set(ext, (counts.get(ext) || 0) + 1);
+    });
+    n.dirs.forEach(visit);
+  };
+  visit(node);
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 4)
+    .map(([ext, count]) => `${count} ${ext}`)
+    .join(', ');
+}
+
+/**
+ * Render a compact, indented summary of a repository tree for the AI prompt.
+ * Folders deeper than a few levels are collapsed into file counts so large repos stay readable.
+ * @param entries - Tree entries, ideally already pruned of noise folders
+ * @returns Multi-line summary using the `[DIR]` / `[FILE]` notation
+ */
+export function summarizeFileTree(entries: RepoTreeEntry[]): string {
+  const root = buildDirTree(entries);
+  const lines: string[] = [];
+  let omitted = 0;
+
+  const push = (line: string) => {
+    if (lines.length < SUMMARY_MAX_LINES) lines.push(line);
+    else omitted++;
+  };
+
+  const render = (node: DirNode, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const dirs = Array.from(node.dirs.values()).sort((a, b) => a.path.localeCompare(b.path));
+
+    for (const dir of dirs) {
+      if (depth + 1 >= SUMMARY_MAX_DEPTH && dir.dirs.size + dir.files.length > 0) {
+        push(`${indent}[DIR] ${dir.path}/ (${dir.fileCount} files: ${describeExtensions(dir)})`);
+        continue;
+      }
+      push(`${indent}[DIR] ${dir.path}/ (${dir.fileCount} files)`);
+      render(dir, depth + 1);
+    }
+
+    [...node.files].sort().forEach(file => push(`${indent}[FILE] ${file}`));
+  };
+
+  render(root, 0);
+
+  if (omitted > 0) {
+    lines.push(`... (${omitted} more entries not shown)`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,51 @@
+import { RepoForensics } from '../types';
+
+/**
+ * Key prefix for per-repository forensic data in localStorage
+ */
+const FORENSICS_KEY_PREFIX = 'forensics_';
+
+/**
+ * Default age after which collected forensic data is refreshed (24 hours)
+ */
+export const FORENSICS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the forensic data collected for a repository
+ * @param repoId - The repository ID
+ * @returns Collected data, empty if nothing was collected yet
+ */
+export function getForensics(repoId: number): RepoForensics {
+  try {
+    const cached = localStorage.getItem(`${FORENSICS_KEY_PREFIX}${repoId}`);
+    return cached ? JSON.parse(cached) as RepoForensics : {};
+  } catch (error) {
+    console.error(`Error reading forensics for repo ${repoId}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Merge newly collected sections into a repository's forensic data
+ * @param repoId - The repository ID
+ * @param patch - Sections to add or replace
+ * @returns The merged data
+ */
+export function updateForensics(repoId: number, patch: Partial<RepoForensics>): RepoForensics {
+  const merged = { ...getForensics(repoId), ...patch };
+  try {
+    localStorage.setItem(`${FORENSICS_KEY_PREFIX}${repoId}`, JSON.stringify(merged));
+  } catch (error) {
+    console.error(`Error writing forensics for repo ${repoId}:`, error);
+  }
+  return merged;
+}
+
+/**
+ * Check whether a forensic section needs to be collected again
+ * @param collectedAt - Timestamp the section was collected at, if any
+ * @param maxAgeMs - Max acceptable age
+ */
+export function isForensicsStale(collectedAt: number | undefined, maxAgeMs: number = FORENSICS_MAX_AGE_MS): boolean {
+  return !collectedAt || Date.now() - collectedAt > maxAgeMs;
+}
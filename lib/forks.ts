@@ -0,0 +1,30 @@
+import { ForkDivergence, GithubRepo } from '../types';
+
+export type ForkFilter = 'all' | 'originals' | 'forks' | 'cleanup';
+
+/**
+ * A fork without a single commit of its own adds nothing over its upstream
+ * @param divergence - The fork's comparison with its upstream, if collected
+ */
+export function isForkCleanupCandidate(divergence: ForkDivergence | undefined): boolean {
+  return divergence?.aheadBy === 0;
+}
+
+/**
+ * Check a repository against the dashboard's fork filter
+ * @param repo - Repository to check
+ * @param divergence - Its comparison with its upstream, if it is a fork and it was collected
+ * @param filter - Selected filter
+ */
+export function matchesForkFilter(repo: GithubRepo, divergence: ForkDivergence | undefined, filter: ForkFilter): boolean {
+  switch (filter) {
+    case 'originals':
+      return !repo.fork;
+    case 'forks':
+      return !!repo.fork;
+    case 'cleanup':
+      return !!repo.fork && isForkCleanupCandidate(divergence);
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,124 @@
+import { GitRemote } from '../types';
+
+/**
+ * Parsers for the plain-text files and loose objects inside a `.git` directory
+ */
+
+export type HeadTarget = { ref: string; sha: null } | { ref: null; sha: string };
+
+export interface ReflogEntry {
+  oldSha: string;
+  newSha: string;
+  timestamp: number; // Unix timestamp in milliseconds
+  message: string;
+}
+
+export interface CommitObject {
+  tree: string;
+  parents: string[];
+  authorDate: string; // ISO date
+}
+
+/**
+ * Parse `.git/HEAD`: a symbolic ref such as `ref: refs/heads/main`, or a bare SHA when detached
+ */
+export function parseHeadFile(text: string): HeadTarget | null {
+  const trimmed = text.trim();
+  const symbolic = trimmed.match(/^ref:\s*(\S+)$/);
+  if (symbolic) return { ref: symbolic[1], sha: null };
+  return /^[0-9a-f]{40}$/i.test(trimmed) ? { ref: null, sha: trimmed.toLowerCase() } : null;
+}
+
+/**
+ * Parse `.git/packed-refs` into ref name → SHA. Peeled tag lines (`^sha`) and comments are skipped.
+ */
+export function parsePackedRefs(text: string): Map<string, string> {
+  const refs = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const match = line.match(/^([0-9a-f]{40}) (\S+)$/i);
+    if (match) refs.set(match[2], match[1].toLowerCase());
+  }
+  return refs;
+}
+
+/**
+ * Parse a reflog such as `.git/logs/HEAD`, oldest entry first.
+ * Lines look like `<old> <new> Name <email> <seconds> <tz>\t<message>`.
+ */
+export function parseReflog(text: string): ReflogEntry[] {
+  const entries: ReflogEntry[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^([0-9a-f]{40}) ([0-9a-f]{40}) .*? (\d+) [+-]\d{4}(?:\t(.*))?$/i);
+    if (!match) continue;
+    entries.push({ oldSha: match[1], newSha: match[2], timestamp: Number(match[3]) * 1000, message: match[4] || '' });
+  }
+  return entries;
+}
+
+/**
+ * Whether a reflog entry records a new commit (`commit:`, `commit (amend):`, `commit (merge):`, ...)
+ */
+export function isCommitEntry(entry: ReflogEntry): boolean {
+  return /^commit\b/.test(entry.message);
+}
+
+/**
+ * Inflate a zlib-compressed loose object
+ */
+export async function inflateObject(data: ArrayBuffer): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Parse an inflated loose commit object (`commit <size>\0` followed by headers and the message)
+ * @returns The commit, or null if the object is not a commit
+ */
+export function parseCommitObject(object: Uint8Array): CommitObject | null {
+  const nul = object.indexOf(0);
+  const text = new TextDecoder().decode(object.subarray(nul + 1));
+  if (!new TextDecoder().decode(object.subarray(0, nul)).startsWith('commit ')) return null;
+
+  const headers = text.slice(0, text.indexOf('\n\n') === -1 ? undefined : text.indexOf('\n\n'));
+  const tree = headers.match(/^tree ([0-9a-f]{40})$/m)?.[1];
+  const author = headers.match(/^author .* (\d+) [+-]\d{4}$/m);
+  if (!tree || !author) return null;
+
+  return {
+    tree,
+    parents: Array.from(headers.matchAll(/^parent ([0-9a-f]{40})$/gm), m => m[1]),
+    authorDate: new Date(Number(author[1]) * 1000).toISOString()
+  };
+}
+
+export interface GitConfig {
+  remotes: GitRemote[];
+  branches: Record<string, { remote?: string; merge?: string }>; // tracking setup per local branch
+}
+
+/**
+ * Parse the `[remote "..."]` and `[branch "..."]` sections of `.git/config`
+ */
+export function parseGitConfig(text: string): GitConfig {
+  const config: GitConfig = { remotes: [], branches: {} };
+  let section: { kind: string; name: string } | null = null;
+
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/[#;].*$/, '').trim();
+    const header = line.match(/^\[(\w+)(?:\s+"([^"]*)")?\]$/);
+    if (header) {
+      section = header[2] !== undefined ? { kind: header[1].toLowerCase(), name: header[2] } : null;
+      continue;
+    }
+    const entry = line.match(/^(\w+)\s*=\s*(.*)$/);
+    if (!section || !entry) continue;
+
+    const key = entry[1].toLowerCase();
+    if (section.kind === 'remote' && key === 'url') {
+      config.remotes.push({ name: section.name, url: entry[2] });
+    } else if (section.kind === 'branch' && (key === 'remote' || key === 'merge')) {
+      config.branches[section.name] = { ...config.branches[section.name], [key]: entry[2] };
+    }
+  }
+  return config;
+}
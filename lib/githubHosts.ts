@@ -0,0 +1,73 @@
+/**
+ * REST base URL of github.com; sources without an explicit URL use it
+ */
+export const DEFAULT_API_BASE_URL = 'https://api.github.com';
+
+/**
+ * Repo IDs are only unique per host. IDs from other hosts are shifted above this offset
+ * (github.com IDs stay below it) so repos from several hosts can share one dashboard and cache.
+ */
+const HOST_ID_SPACE = 2 ** 32;
+
+/**
+ * Normalize a user-entered REST base URL. A bare Enterprise Server host gets its `/api/v3` suffix.
+ * @param url - URL as typed in Settings; empty means github.com
+ * @returns The base URL without a trailing slash, or undefined for github.com
+ * @throws Error if the URL cannot be parsed
+ */
+export function normalizeApiBaseUrl(url: string | undefined): string | undefined {
+  const trimmed = url?.trim().replace(/\/+$/, '');
+  if (!trimmed) return undefined;
+
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  if (withScheme === DEFAULT_API_BASE_URL || /^https:\/\/github\.com$/i.test(withScheme)) return undefined;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(withScheme);
+  } catch {
+    throw new Error(`"${url}" is not a valid API URL`);
+  }
+  return parsed.pathname === '/' ? `${withScheme}/api/v3` : withScheme;
+}
+
+/**
+ * GraphQL endpoint that belongs to a REST base URL (`/api/v3` → `/api/graphql` on Enterprise Server)
+ */
+export function deriveGraphqlUrl(apiBaseUrl: string = DEFAULT_API_BASE_URL): string {
+  if (apiBaseUrl === DEFAULT_API_BASE_URL) return `${DEFAULT_API_BASE_URL}/graphql`;
+  return apiBaseUrl.replace(/\/v3$/, '') + '/graphql';
+}
+
+/**
+ * Host name of an API base URL, e.g. `ghe.example.com`
+ */
+export function getApiHost(apiBaseUrl: string = DEFAULT_API_BASE_URL): string {
+  return new URL(apiBaseUrl).host;
+}
+
+/**
+ * Map a repo ID reported by a GitHub host into the dashboard's shared ID space.
+ * github.com IDs are returned unchanged so existing caches stay valid.
+ * @param id - Repo ID as reported by the host
+ * @param apiBaseUrl - REST base URL of the host, undefined for github.com
+ */
+export function namespaceRepoId(id: number, apiBaseUrl: string | undefined): number {
+  if (!apiBaseUrl || apiBaseUrl === DEFAULT_API_BASE_URL) return id;
+
+  // Folded to 20 bits so the result stays a safe integer
+  const hostSlot = (hashString(getApiHost(apiBaseUrl)) & 0xfffff) + 1;
+  return hostSlot * HOST_ID_SPACE + id;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, as an unsigned integer
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of text) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,123 @@
+/**
+ * Key prefix for cached GitHub responses in localStorage
+ */
+const RESPONSE_KEY_PREFIX = 'ghResponse_';
+
+/**
+ * Response headers worth replaying from the cache (pagination needs `Link`, connection tests read the server version)
+ */
+const REPLAYED_HEADERS = ['Content-Type', 'Link', 'X-GitHub-Enterprise-Version'];
+
+/**
+ * Cached GitHub response together with its validators
+ */
+export interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  body: string;
+  headers: Record<string, string>;
+  cachedAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Get the cached response for an endpoint
+ * @param key - Endpoint key (token bucket, Accept header and URL)
+ * @returns The cached response or null if not found or unreadable
+ */
+export function getCachedResponse(key: string): CachedResponse | null {
+  try {
+    const cached = localStorage.getItem(`${RESPONSE_KEY_PREFIX}${key}`);
+    return cached ? JSON.parse(cached) as CachedResponse : null;
+  } catch (error) {
+    console.error(`Error reading response cache for ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store a successful response if GitHub gave it a validator.
+ * When localStorage is full, the oldest cached responses are evicted and the write retried once.
+ * @param key - Endpoint key
+ * @param response - The 200 response; it is cloned, so the caller can still read the body
+ */
+export async function setCachedResponse(key: string, response: Response): Promise<void> {
+  const etag = response.headers.get('ETag');
+  const lastModified = response.headers.get('Last-Modified');
+  if (!etag && !lastModified) return;
+
+  const headers: Record<string, string> = {};
+  REPLAYED_HEADERS.forEach(name => {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  });
+
+  const entry: CachedResponse = {
+    etag,
+    lastModified,
+    body: await response.clone().text(),
+    headers,
+    cachedAt: Date.now()
+  };
+  const serialized = JSON.stringify(entry);
+
+  try {
+    localStorage.setItem(`${RESPONSE_KEY_PREFIX}${key}`, serialized);
+  } catch {
+    evictOldestResponses();
+    try {
+      localStorage.setItem(`${RESPONSE_KEY_PREFIX}${key}`, serialized);
+    } catch (error) {
+      console.warn(`Response for ${key} is too large to cache:`, error);
+    }
+  }
+}
+
+/**
+ * Rebuild a fetch Response from a cached entry, used when GitHub answers 304 Not Modified
+ */
+export function toResponse(cached: CachedResponse): Response {
+  return new Response(cached.body, { status: 200, headers: cached.headers });
+}
+
+/**
+ * Remove the older half of the cached responses to free localStorage space
+ */
+function evictOldestResponses(): void {
+  const entries: { key: string; cachedAt: number }[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(RESPONSE_KEY_PREFIX)) {
+      try {
+        entries.push({ key, cachedAt: (JSON.parse(localStorage.getItem(key) || '{}') as CachedResponse).cachedAt || 0 });
+      } catch {
+        entries.push({ key, cachedAt: 0 });
+      }
+    }
+  }
+
+  entries
+    .sort((a, b) => a.cachedAt - b.cachedAt)
+    .slice(0, Math.ceil(entries.length / 2))
+    .forEach(entry => localStorage.removeItem(entry.key));
+}
+
+/**
+ * Clear every cached GitHub response
+ */
+export function clearResponseCache(): void {
+  try {
+    const keysToRemove: string[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(RESPONSE_KEY_PREFIX)) {
+        keysToRemove.push(key);
+      }
+    }
+
+    keysToRemove.forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.error('Error clearing response cache:', error);
+  }
+}
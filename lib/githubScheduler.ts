@@ -0,0 +1,204 @@
+/**
+ * Max number of GitHub requests in flight at once.
+ * GitHub's secondary limits penalize bursts of concurrent requests.
+ */
+const MAX_CONCURRENT_REQUESTS = 3;
+
+/**
+ * Max times a single request is retried after being rate limited
+ */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * Wait applied to a secondary rate limit response that carries no `Retry-After` header
+ */
+const SECONDARY_LIMIT_BACKOFF_MS = 60 * 1000;
+
+/**
+ * Last rate-limit state reported by GitHub for one token/resource pair
+ */
+export interface RateLimitSnapshot {
+  bucket: string;
+  resource: string;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Unix timestamp in milliseconds
+  pausedUntil: number | null; // Set while requests are held back
+}
+
+type RateLimitListener = (snapshot: RateLimitSnapshot | null) => void;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Shared queue for every GitHub API call.
+ * Reads the `X-RateLimit-*` headers of each response, holds requests back once the quota is spent,
+ * and retries rate-limited requests after `Retry-After` or the quota reset.
+ */
+export class GithubRequestScheduler {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private snapshots = new Map<string, RateLimitSnapshot>();
+  private pausedUntil = new Map<string, number>();
+  private listeners = new Set<RateLimitListener>();
+
+  /**
+   * Run a request through the queue
+   * @param bucket - Identifies the token (and host) the request is charged to
+   * @param send - Performs the actual fetch; may be called more than once when retrying
+   */
+  async schedule(bucket: string, send: () => Promise<Response>): Promise<Response> {
+    let attempt = 0;
+
+    while (true) {
+      await this.waitWhilePaused(bucket);
+      await this.acquire();
+
+      let response: Response;
+      try {
+        response = await send();
+      } finally {
+        this.release();
+      }
+
+      const snapshot = this.record(bucket, response.headers);
+      const retryAt = await this.getRetryTime(response, snapshot);
+
+      if (retryAt === null || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        // Quota spent by this very request: hold back the next ones until it resets
+        if (snapshot && snapshot.remaining === 0) this.pause(bucket, snapshot.resetAt);
+        return response;
+      }
+
+      attempt++;
+      console.warn(`GitHub rate limit hit. Retrying in ${Math.ceil((retryAt - Date.now()) / 1000)}s (attempt ${attempt}/${MAX_RATE_LIMIT_RETRIES}).`);
+      this.pause(bucket, retryAt);
+    }
+  }
+
+  /**
+   * Subscribe to rate-limit changes. The listener is called immediately with the current state.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: RateLimitListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The most constrained bucket: a paused one first, otherwise the one with the smallest share of quota left
+   */
+  getSnapshot(): RateLimitSnapshot | null {
+    let worst: RateLimitSnapshot | null = null;
+    const now = Date.now();
+
+    for (const snapshot of this.snapshots.values()) {
+      const pausedUntil = this.pausedUntil.get(snapshot.bucket) ?? null;
+      const current = { ...snapshot, pausedUntil: pausedUntil && pausedUntil > now ? pausedUntil : null };
+      if (!worst) {
+        worst = current;
+        continue;
+      }
+      if (current.pausedUntil && !worst.pausedUntil) {
+        worst = current;
+      } else if (!!current.pausedUntil === !!worst.pausedUntil && current.remaining / current.limit < worst.remaining / worst.limit) {
+        worst = current;
+      }
+    }
+    return worst;
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < MAX_CONCURRENT_REQUESTS) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(); // hand the slot straight to the next request
+    } else {
+      this.active--;
+    }
+  }
+
+  private async waitWhilePaused(bucket: string): Promise<void> {
+    let until = this.pausedUntil.get(bucket);
+    while (until && until > Date.now()) {
+      await sleep(until - Date.now());
+      until = this.pausedUntil.get(bucket);
+    }
+    if (until) {
+      this.pausedUntil.delete(bucket);
+      this.notify();
+    }
+  }
+
+  private pause(bucket: string, until: number): void {
+    const current = this.pausedUntil.get(bucket) ?? 0;
+    if (until > current) {
+      this.pausedUntil.set(bucket, until);
+      this.notify();
+    }
+  }
+
+  private record(bucket: string, headers: Headers): RateLimitSnapshot | null {
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const reset = headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) return null;
+
+    const resource = headers.get('X-RateLimit-Resource') || 'core';
+    const key = `${bucket}:${resource}`;
+    const snapshot: RateLimitSnapshot = {
+      bucket,
+      resource,
+      limit: parseInt(limit, 10),
+      remaining: parseInt(remaining, 10),
+      resetAt: parseInt(reset, 10) * 1000,
+      pausedUntil: null
+    };
+    this.snapshots.set(key, snapshot);
+    this.notify();
+    return snapshot;
+  }
+
+  /**
+   * Decide whether a response was rate limited and, if so, when to try again
+   * @returns Timestamp to retry at, or null if the response should be returned as-is
+   */
+  private async getRetryTime(response: Response, snapshot: RateLimitSnapshot | null): Promise<number | null> {
+    if (response.status !== 403 && response.status !== 429) return null;
+
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      return Date.now() + parseInt(retryAfter, 10) * 1000;
+    }
+    if (snapshot && snapshot.remaining === 0) {
+      return snapshot.resetAt;
+    }
+
+    // A 403 may also be a plain permission error; only secondary limits mention the rate limit
+    const body = await response.clone().json().catch(() => ({}));
+    if (typeof body.message === 'string' && body.message.toLowerCase().includes('rate limit')) {
+      return Date.now() + SECONDARY_LIMIT_BACKOFF_MS;
+    }
+    return null;
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/**
+ * Scheduler instance shared by every GithubService
+ */
+export const githubScheduler = new GithubRequestScheduler();
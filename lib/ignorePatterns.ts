@@ -0,0 +1,119 @@
+import { NOISE_FOLDERS } from './fileTree';
+
+/**
+ * A parsed `.gitignore`-style pattern
+ */
+export interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  /** Folder the pattern was read from, relative to the scan root ('' for the root) */
+  base: string;
+}
+
+/**
+ * Exclusions used until the user edits them in Settings: the shared noise folders and hidden folders
+ */
+export const DEFAULT_SCAN_EXCLUSIONS = [...Array.from(NOISE_FOLDERS).map(name => `${name}/`), '.*/'];
+
+/**
+ * Folder levels below the picked folder searched for repositories by default
+ */
+export const DEFAULT_SCAN_MAX_DEPTH = 5;
+
+/**
+ * Translate the glob part of a pattern into a regex body
+ */
+function globToRegex(glob: string): string {
+  let body = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of folders, a trailing `/**` everything inside
+      if (glob[i + 2] === '/') {
+        body += '(?:.*/)?';
+        i += 2;
+      } else {
+        body += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      body += '[^/]*';
+    } else if (char === '?') {
+      body += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        body += '\\[';
+      } else {
+        const inner = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        body += `[${inner}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      body += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      body += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return body;
+}
+
+/**
+ * Parse `.gitignore`, `.git/info/exclude` or exclusion-list content
+ * @param content - One pattern per line; blank lines and `#` comments are skipped
+ * @param base - Folder the patterns are relative to ('' for the scan root)
+ */
+export function parseIgnorePatterns(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    else if (line.startsWith('\\!') || line.startsWith('\\#')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to its folder; otherwise it matches at any level
+    const anchored = line.includes('/');
+    const body = globToRegex(line.replace(/^\//, ''));
+    rules.push({ regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`), negated, directoryOnly, base });
+  }
+  return rules;
+}
+
+/**
+ * Whether a path is ignored. As in git, the last matching pattern wins and `!` patterns re-include.
+ * @param rules - Patterns in the order they were read, outer folders first
+ * @param path - Slash-separated path relative to the scan root
+ * @param isDirectory - Whether the path is a folder, for patterns ending in `/`
+ */
+export function isIgnored(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+    const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.regex.test(relative)) ignored = !rule.negated;
+  }
+  return ignored;
+}
+
+/**
+ * Read and parse a folder's `.gitignore`
+ * @param dir - The folder
+ * @param base - The folder's path relative to the scan root
+ * @returns The folder's patterns, or none if it has no readable `.gitignore`
+ */
+export async function readGitignore(dir: FileSystemDirectoryHandle, base: string): Promise<IgnoreRule[]> {
+  try {
+    const file = await (await dir.getFileHandle('.gitignore')).getFile();
+    return parseIgnorePatterns(await file.text(), base);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,89 @@
+import { AnalysisResult, FindingKind } from '../types';
+
+/**
+ * Longest issue title generated from a finding before it is cut at a word boundary
+ */
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Labels suggested for each kind of finding
+ */
+export const DEFAULT_FINDING_LABELS: Record<FindingKind, string[]> = {
+  completionGap: ['enhancement'],
+  techDebtIndex: ['tech-debt'],
+};
+
+export const FINDING_KIND_LABELS: Record<FindingKind, string> = {
+  completionGap: 'Completion gap',
+  techDebtIndex: 'Tech debt',
+};
+
+export interface IssueDraft {
+  id: string; // stable key for the review list
+  kind: FindingKind;
+  finding: string;
+  title: string;
+  body: string;
+  labels: string[];
+  match: { number: number; url: string } | null; // open issue that already covers the finding
+}
+
+/**
+ * Shorten a finding into an issue title
+ */
+export function toIssueTitle(finding: string): string {
+  const text = finding.trim().replace(/\s+/g, ' ').replace(/\.$/, '');
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : MAX_TITLE_LENGTH)}…`;
+}
+
+/**
+ * Normalize a title for fuzzy comparison: lowercase words only
+ */
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Find an open issue whose title matches a draft title, ignoring case, punctuation and truncation
+ * @param title - Proposed issue title
+ * @param issues - Open issues of the repository
+ */
+export function findMatchingIssue<T extends { title: string }>(title: string, issues: T[]): T | null {
+  const wanted = normalizeTitle(title.replace(/…$/, ''));
+  if (!wanted) return null;
+  return issues.find(issue => {
+    const existing = normalizeTitle(issue.title);
+    return existing === wanted || (wanted.length >= 20 && existing.startsWith(wanted)) || (existing.length >= 20 && wanted.startsWith(existing));
+  }) || null;
+}
+
+/**
+ * Turn an analysis' completion gaps and tech-debt findings into issue drafts.
+ * Findings already filed from this analysis, or covered by an open issue, carry a `match`.
+ * @param analysis - The cached analysis
+ * @param openIssues - Open issues of the repository
+ */
+export function buildIssueDrafts(
+  analysis: AnalysisResult,
+  openIssues: { number: number; title: string; html_url: string }[]
+): IssueDraft[] {
+  const kinds: FindingKind[] = ['completionGap', 'techDebtIndex'];
+
+  return kinds.flatMap(kind => (analysis[kind] || []).map((finding, idx) => {
+    const title = toIssueTitle(finding);
+    const filed = analysis.filedIssues?.find(f => f.kind === kind && f.finding === finding);
+    const open = filed ? null : findMatchingIssue(title, openIssues);
+
+    return {
+      id: `${kind}-${idx}`,
+      kind,
+      finding,
+      title,
+      body: `${finding}\n\n---\n_${FINDING_KIND_LABELS[kind]} identified by the RepoNexus architectural assessment._`,
+      labels: DEFAULT_FINDING_LABELS[kind],
+      match: filed ? { number: filed.number, url: filed.url } : open ? { number: open.number, url: open.html_url } : null,
+    };
+  }));
+}
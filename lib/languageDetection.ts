@@ -0,0 +1,143 @@
+import { LanguageStats, SourceFile } from '../types';
+
+/**
+ * Source file classification for local language statistics, modelled on GitHub Linguist:
+ * only programming and markup languages count, and vendored or generated files are left out.
+ */
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', mts: 'TypeScript', cts: 'TypeScript',
+  js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', pyi: 'Python', ipynb: 'Jupyter Notebook',
+  rs: 'Rust',
+  go: 'Go',
+  rb: 'Ruby', rake: 'Ruby',
+  java: 'Java',
+  kt: 'Kotlin', kts: 'Kotlin',
+  scala: 'Scala', groovy: 'Groovy', gradle: 'Groovy', clj: 'Clojure',
+  php: 'PHP',
+  c: 'C', h: 'C',
+  cc: 'C++', cpp: 'C++', cxx: 'C++', hh: 'C++', hpp: 'C++', hxx: 'C++',
+  cs: 'C#', fs: 'F#',
+  swift: 'Swift', m: 'Objective-C', mm: 'Objective-C++',
+  dart: 'Dart',
+  sh: 'Shell', bash: 'Shell', zsh: 'Shell', ps1: 'PowerShell',
+  lua: 'Lua', pl: 'Perl', r: 'R', jl: 'Julia',
+  ex: 'Elixir', exs: 'Elixir', erl: 'Erlang',
+  hs: 'Haskell', ml: 'OCaml', elm: 'Elm',
+  zig: 'Zig', nim: 'Nim', sol: 'Solidity', tf: 'HCL',
+  html: 'HTML', htm: 'HTML', css: 'CSS', scss: 'SCSS', sass: 'Sass', less: 'Less',
+  vue: 'Vue', svelte: 'Svelte', astro: 'Astro',
+};
+
+const FILENAME_LANGUAGES: Record<string, string> = {
+  Dockerfile: 'Dockerfile',
+  Makefile: 'Makefile',
+  GNUmakefile: 'Makefile',
+  Rakefile: 'Ruby',
+  Gemfile: 'Ruby',
+};
+
+const SHEBANG_LANGUAGES: [RegExp, string][] = [
+  [/\b(ba|z|da)?sh$/, 'Shell'],
+  [/\bpython[\d.]*$/, 'Python'],
+  [/\bnode$|\bdeno$|\bbun$/, 'JavaScript'],
+  [/\bts-node$|\btsx$/, 'TypeScript'],
+  [/\bruby$/, 'Ruby'],
+  [/\bperl$/, 'Perl'],
+  [/\bphp$/, 'PHP'],
+];
+
+/**
+ * Path patterns of third-party code checked into a repository
+ */
+const VENDORED_PATTERNS = [
+  /(^|\/)(node_modules|bower_components|vendor|vendors|third[-_]?party|external|Pods|Carthage)\//i,
+  /(^|\/)(jquery|bootstrap|d3|lodash|underscore|moment)([.-][\d.]+)?(\.min)?\.(js|css)$/i,
+];
+
+/**
+ * Path patterns of files produced by tools rather than written by hand
+ */
+const GENERATED_PATTERNS = [
+  /\.min\.(js|css)$/i,
+  /[-.]bundle\.js$/i,
+  /\.map$/i,
+  /\.pb\.(go|cc|h)$|_pb2(_grpc)?\.py$|\.pb\.swift$/,
+  /\.g\.dart$|\.freezed\.dart$/,
+  /\.designer\.cs$|\.generated\.\w+$/i,
+  /(^|\/)(dist|build|out|generated|__generated__)\//,
+];
+
+/**
+ * Average line length above which JavaScript, CSS or HTML is treated as minified
+ */
+const MINIFIED_LINE_LENGTH = 110;
+
+/**
+ * Language of a file from its name alone
+ * @param fileName - Base name of the file
+ * @returns The language, or null if the name does not say (e.g. scripts without an extension)
+ */
+export function getLanguageForFile(fileName: string): string | null {
+  if (FILENAME_LANGUAGES[fileName]) return FILENAME_LANGUAGES[fileName];
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return null;
+  return EXTENSION_LANGUAGES[fileName.slice(dot + 1).toLowerCase()] || null;
+}
+
+/**
+ * Language named by a script's `#!` line, e.g. `#!/usr/bin/env python3`
+ */
+export function getLanguageForShebang(firstLine: string): string | null {
+  const [program, ...args] = firstLine.match(/^#!\s*(.*)$/)?.[1].trim().split(/\s+/) || [];
+  if (!program) return null;
+  // `/usr/bin/env python3` names the interpreter as its first argument after any flags
+  const interpreter = /\/env$/.test(program) ? args.find(arg => !arg.startsWith('-')) || '' : program;
+  return SHEBANG_LANGUAGES.find(([pattern]) => pattern.test(interpreter))?.[1] || null;
+}
+
+/**
+ * Whether a path is third-party or generated code that should not count towards the breakdown
+ * @param path - Slash-separated path relative to the repository root
+ */
+export function isExcludedFromLanguageStats(path: string): boolean {
+  return VENDORED_PATTERNS.some(pattern => pattern.test(path)) || GENERATED_PATTERNS.some(pattern => pattern.test(path));
+}
+
+/**
+ * Whether JavaScript, CSS or HTML content looks minified or bundled
+ * @param language - Language of the file
+ * @param bytes - File size
+ * @param lines - Line count
+ */
+export function isMinified(language: string, bytes: number, lines: number): boolean {
+  return ['JavaScript', 'CSS', 'HTML'].includes(language) && lines > 0 && bytes / lines > MINIFIED_LINE_LENGTH;
+}
+
+/**
+ * Number of lines in file content; a last line without a trailing newline counts too
+ */
+export function countLines(content: Uint8Array): number {
+  let lines = 0;
+  for (const byte of content) {
+    if (byte === 10) lines++;
+  }
+  return content.length && content[content.length - 1] !== 10 ? lines + 1 : lines;
+}
+
+/**
+ * Total bytes and lines per language of walked files
+ * @param files - Files from the source walk
+ * @param truncated - Whether the walk stopped at its file limit
+ */
+export function summarizeLanguages(files: SourceFile[], truncated: boolean): LanguageStats {
+  const stats: LanguageStats = { bytes: {}, lines: {}, filesCounted: 0, truncated };
+  for (const file of files) {
+    if (!file.language) continue;
+    stats.bytes[file.language] = (stats.bytes[file.language] || 0) + file.size;
+    stats.lines[file.language] = (stats.lines[file.language] || 0) + (file.lines || 0);
+    stats.filesCounted++;
+  }
+  return stats;
+}
@@ -0,0 +1,55 @@
+/**
+ * Minimum share of a repository's bytes for a language to count as "used" by it
+ */
+export const SIGNIFICANT_LANGUAGE_SHARE = 0.1;
+
+/**
+ * Convert a bytes-per-language breakdown into rounded percentages, largest first
+ * @param languages - Bytes per language
+ * @returns Percent (0-100) per language
+ */
+export function getLanguageShares(languages: Record<string, number> | undefined): Record<string, number> {
+  if (!languages) return {};
+  const total = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+  if (total === 0) return {};
+
+  return Object.fromEntries(
+    Object.entries(languages)
+      .sort((a, b) => b[1] - a[1])
+      .map(([language, bytes]) => [language, Math.round((bytes / total) * 1000) / 10])
+  );
+}
+
+/**
+ * Languages that make up a meaningful part of a repository
+ * @param primary - The single language GitHub reports for the repo
+ * @param languages - Bytes per language, if known
+ */
+export function getSignificantLanguages(primary: string | null, languages: Record<string, number> | undefined): string[] {
+  const result = new Set<string>();
+  if (primary) result.add(primary);
+  Object.entries(getLanguageShares(languages)).forEach(([language, percent]) => {
+    if (percent / 100 >= SIGNIFICANT_LANGUAGE_SHARE) result.add(language);
+  });
+  return Array.from(result);
+}
+
+/**
+ * The language with the most bytes, as GitHub picks a repository's primary language
+ */
+export function getPrimaryLanguage(languages: Record<string, number> | undefined): string | null {
+  const [top] = Object.entries(languages || {}).sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : null;
+}
+
+/**
+ * Percent of all measured code per language across a portfolio. Repos without a breakdown are left out.
+ * @param repos - Repositories with their bytes-per-language breakdown
+ */
+export function getPortfolioLanguageShares(repos: { languages?: Record<string, number> }[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  repos.forEach(repo => Object.entries(repo.languages || {}).forEach(([language, bytes]) => {
+    totals[language] = (totals[language] || 0) + bytes;
+  }));
+  return getLanguageShares(totals);
+}
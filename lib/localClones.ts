@@ -0,0 +1,109 @@
+import { CloneSync, CloneSyncStatus, GithubRepo, LocalGitInfo } from '../types';
+
+export const CLONE_SYNC_LABELS: Record<CloneSyncStatus, string> = {
+  synced: 'In sync',
+  ahead: 'Unpushed commits',
+  behind: 'Behind remote',
+  diverged: 'Diverged',
+  'local-only': 'Local-only, never pushed',
+  unknown: 'Sync unknown',
+};
+
+/**
+ * Host and `owner/repo` of a remote URL.
+ * Handles `https://host/owner/repo.git`, `ssh://git@host/owner/repo` and `git@host:owner/repo.git`.
+ * @returns null for local paths and URLs without an owner and repo
+ */
+export function parseRemoteUrl(url: string): { host: string; fullName: string } | null {
+  const match = url.trim().match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/i);
+  if (!match) return null;
+  const path = match[2].replace(/^\/+/, '').split('/');
+  // Enterprise Server URLs may carry a path prefix; owner and repo are the last two segments
+  if (path.length < 2 || !path[path.length - 1]) return null;
+  return { host: match[1].toLowerCase(), fullName: path.slice(-2).join('/') };
+}
+
+/**
+ * Find the GitHub repository a clone's remotes point at.
+ * The upstream of the current branch is tried first, then `origin`, then the other remotes.
+ * @param localGit - What the scan read from the clone's `.git`
+ * @param repos - Repositories loaded from GitHub
+ */
+export function findLinkedRepo(localGit: LocalGitInfo | undefined, repos: GithubRepo[]): GithubRepo | null {
+  if (!localGit?.remotes?.length) return null;
+
+  const rank = (name: string) => (name === localGit.upstream?.remote ? 0 : name === 'origin' ? 1 : 2);
+  const remotes = [...localGit.remotes].sort((a, b) => rank(a.name) - rank(b.name));
+
+  for (const remote of remotes) {
+    const parsed = parseRemoteUrl(remote.url);
+    if (!parsed) continue;
+    const candidates = repos.filter(r => !r.isLocal && r.full_name.toLowerCase() === parsed.fullName.toLowerCase());
+    // SSH host aliases hide the real host, so fall back to the name alone when no host matches
+    const sameHost = candidates.find(r => {
+      try {
+        return new URL(r.html_url).host.toLowerCase() === parsed.host;
+      } catch {
+        return false;
+      }
+    });
+    if (sameHost || candidates[0]) return sameHost || candidates[0];
+  }
+  return null;
+}
+
+/**
+ * Classify ahead/behind counts; null counts mean they could not be measured
+ */
+export function getCloneSyncStatus(aheadBy: number | null, behindBy: number | null): CloneSyncStatus {
+  if (aheadBy === null || behindBy === null) {
+    return aheadBy ? 'ahead' : behindBy ? 'behind' : 'unknown';
+  }
+  if (aheadBy > 0 && behindBy > 0) return 'diverged';
+  if (aheadBy > 0) return 'ahead';
+  if (behindBy > 0) return 'behind';
+  return 'synced';
+}
+
+/**
+ * Combine GitHub and local repositories into one list, folding each clone into the GitHub repo it was cloned from.
+ * The merged entry keeps the GitHub ID and metadata and gains the clone's path, `.git` data and tech signature.
+ * Clones without a matching GitHub repo stay separate entries.
+ */
+export function mergeLocalClones(repos: GithubRepo[], localRepos: GithubRepo[]): GithubRepo[] {
+  const clones = new Map<number, GithubRepo>();
+  const unlinked: GithubRepo[] = [];
+
+  for (const local of localRepos) {
+    const linked = findLinkedRepo(local.localGit, repos);
+    if (linked && !clones.has(linked.id)) clones.set(linked.id, local);
+    else unlinked.push(local);
+  }
+
+  const merged = repos.map(repo => {
+    const clone = clones.get(repo.id);
+    if (!clone) return repo;
+    return {
+      ...repo,
+      localPath: clone.localPath,
+      localGit: clone.localGit,
+      cloneSync: clone.cloneSync,
+      techSignature: clone.techSignature,
+      codeMetrics: clone.codeMetrics,
+    };
+  });
+
+  return [...merged, ...unlinked];
+}
+
+/**
+ * Sync status of a clone that has no GitHub repo to compare with, from its `.git` alone
+ */
+export function getOfflineCloneSync(localGit: LocalGitInfo | undefined): CloneSync {
+  const checkedAt = new Date().toISOString();
+  if (!localGit?.remotes.length || !localGit.upstream?.sha) {
+    return { status: 'local-only', remoteFullName: null, aheadBy: null, behindBy: null, checkedAt };
+  }
+  const aheadBy = localGit.unpushedCommits;
+  return { status: aheadBy ? 'ahead' : 'unknown', remoteFullName: null, aheadBy, behindBy: null, checkedAt };
+}
@@ -0,0 +1,107 @@
+import { GithubRepo, LocalGitInfo } from '../types';
+import { hashString } from './githubHosts';
+import { parseRemoteUrl } from './localClones';
+
+/**
+ * Key for scanned local repositories in localStorage
+ */
+const LOCAL_REPOS_KEY = 'local_repos';
+
+/**
+ * Per-repository localStorage entries that move along when a local repo's ID changes
+ */
+const REPO_KEY_PREFIXES = ['analysis_', 'forensics_', 'repoAnalysis_'];
+
+/**
+ * Stable ID for a local repository. GitHub IDs are positive, so local IDs are negative and never collide with them.
+ * A clone with a remote is identified by the remote and its folder name, so re-scanning it from another
+ * parent folder keeps its ID; a repo without remotes is identified by its path.
+ * @param localPath - Path relative to the scanned folder
+ * @param localGit - What the scan read from the repo's `.git`
+ */
+export function getLocalRepoId(localPath: string, localGit?: Pick<LocalGitInfo, 'remotes'>): number {
+  const remote = localGit?.remotes?.find(r => r.name === 'origin') || localGit?.remotes?.[0];
+  const parsed = remote ? parseRemoteUrl(remote.url) : null;
+  const folder = localPath.split('/').pop() || localPath;
+  const key = parsed ? `remote:${parsed.host}/${parsed.fullName.toLowerCase()}:${folder}` : `path:${localPath}`;
+
+  // Two hashes give 52 bits, which keeps the ID a safe integer
+  return -(hashString(key) * 2 ** 20 + (hashString(`~${key}`) & 0xfffff) + 1);
+}
+
+/**
+ * Give every repository its own ID. Two copies of the same clone (e.g. `work/foo` and `backup/foo`) share
+ * a remote and folder name and so an ID; the first keeps it and the others fall back to a path-based ID.
+ * Entries with the same path are the same folder and are kept once.
+ * @param repos - Local repositories, earlier entries winning
+ */
+export function disambiguateLocalRepos(repos: GithubRepo[]): GithubRepo[] {
+  const byId = new Map<number, GithubRepo>();
+  for (const repo of repos) {
+    const taken = byId.get(repo.id);
+    if (!taken) {
+      byId.set(repo.id, repo);
+    } else if (taken.localPath !== repo.localPath) {
+      const id = getLocalRepoId(repo.localPath || repo.full_name);
+      if (!byId.has(id)) byId.set(id, { ...repo, id });
+    }
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Move a repository's cached analysis and forensics to a new ID, unless the new ID already has data
+ */
+export function moveRepoEntries(fromId: number, toId: number): void {
+  REPO_KEY_PREFIXES.forEach(prefix => {
+    const value = localStorage.getItem(`${prefix}${fromId}`);
+    if (value === null) return;
+    if (localStorage.getItem(`${prefix}${toId}`) === null) localStorage.setItem(`${prefix}${toId}`, value);
+    localStorage.removeItem(`${prefix}${fromId}`);
+  });
+}
+
+/**
+ * Save scanned local repositories
+ */
+export function saveLocalRepos(repos: GithubRepo[]): void {
+  try {
+    localStorage.setItem(LOCAL_REPOS_KEY, JSON.stringify(repos));
+  } catch (error) {
+    console.error('Error saving local repositories:', error);
+  }
+}
+
+/**
+ * Load scanned local repositories. Entries saved with the old random IDs get their stable ID,
+ * and their cached analyses and forensics are moved along.
+ */
+export function loadLocalRepos(): GithubRepo[] {
+  try {
+    const saved = localStorage.getItem(LOCAL_REPOS_KEY);
+    if (!saved) return [];
+
+    const savedRepos = JSON.parse(saved) as GithubRepo[];
+    const pathOf = (repo: GithubRepo) => repo.localPath || repo.full_name;
+    // Entries already saved with a path-based ID (a second copy of a clone) keep it
+    const unique = disambiguateLocalRepos(savedRepos.map(repo =>
+      repo.id === getLocalRepoId(pathOf(repo)) ? repo : { ...repo, id: getLocalRepoId(pathOf(repo), repo.localGit) }
+    ));
+
+    let migrated = 0;
+    unique.forEach(repo => {
+      const original = savedRepos.find(r => pathOf(r) === pathOf(repo));
+      // Data under an ID another entry still uses belongs to that entry
+      if (!original || original.id === repo.id || unique.some(r => r.id === original.id)) return;
+      moveRepoEntries(original.id, repo.id);
+      migrated++;
+    });
+
+    if (migrated) console.log(`Migrated ${migrated} local repositories to stable IDs`);
+    if (migrated || unique.length !== savedRepos.length) saveLocalRepos(unique);
+    return unique;
+  } catch (error) {
+    console.error('Error loading local repositories:', error);
+    return [];
+  }
+}
@@ -0,0 +1,75 @@
+import { AnalysisResult, GithubRepo, PublishableMetadata } from '../types';
+import { getSignificantLanguages } from './languages';
+
+/**
+ * GitHub rejects descriptions longer than this
+ */
+const MAX_DESCRIPTION_LENGTH = 350;
+
+/**
+ * GitHub allows at most 20 topics per repository
+ */
+const MAX_TOPICS = 20;
+
+export type MetadataField = keyof PublishableMetadata;
+
+/**
+ * Normalize a tag into a valid GitHub topic: lowercase letters, digits and hyphens, max 50 characters
+ * @param tag - Free-form tag such as "Script Collection" or "C++"
+ * @returns The topic, or an empty string if nothing usable is left
+ */
+export function toTopic(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/\+/g, 'p')
+    .replace(/#/g, 'sharp')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+}
+
+/**
+ * The metadata currently published on GitHub
+ */
+export function getCurrentMetadata(repo: GithubRepo): PublishableMetadata {
+  return {
+    description: repo.description || '',
+    topics: repo.topics || [],
+    homepage: repo.homepage || ''
+  };
+}
+
+/**
+ * Build proposed metadata from an analysis. Existing values are kept where the analysis has nothing better.
+ * @param repo - The repository
+ * @param analysis - Its cached analysis
+ * @param pagesUrl - The Pages site URL reported by GitHub, if any. It is not derived from the name:
+ *   user sites (`owner.github.io`) live at the root and Enterprise Server hosts Pages elsewhere.
+ */
+export function buildMetadataProposal(repo: GithubRepo, analysis: AnalysisResult, pagesUrl: string | null = null): PublishableMetadata {
+  const current = getCurrentMetadata(repo);
+  const pulse = analysis.projectPulse?.trim().replace(/^"|"$/g, '');
+  const description = pulse ? pulse.slice(0, MAX_DESCRIPTION_LENGTH) : current.description;
+
+  const tags = [
+    ...current.topics,
+    ...getSignificantLanguages(repo.language, repo.languages),
+    ...(analysis.architecturalPattern ? [analysis.architecturalPattern] : [])
+  ];
+  const topics = Array.from(new Set(tags.map(toTopic).filter(Boolean))).slice(0, MAX_TOPICS);
+
+  const homepage = current.homepage || pagesUrl || '';
+
+  return { description, topics, homepage };
+}
+
+/**
+ * Fields whose proposed value differs from the published one
+ */
+export function getChangedFields(current: PublishableMetadata, proposed: PublishableMetadata): MetadataField[] {
+  const fields: MetadataField[] = [];
+  if (current.description !== proposed.description) fields.push('description');
+  if (current.topics.join(',') !== proposed.topics.join(',')) fields.push('topics');
+  if (current.homepage !== proposed.homepage) fields.push('homepage');
+  return fields;
+}
@@ -0,0 +1,20 @@
+import { GithubRepo } from '../types';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+/**
+ * Best available "proof of life" date for a repository.
+ * Prefers the latest default-branch commit, then the last push; `updated_at` also moves on
+ * metadata edits (description, stars), so it is only a fallback.
+ */
+export function getLastActivityDate(repo: GithubRepo): string | null {
+  return repo.last_commit_at || repo.pushed_at || repo.updated_at || null;
+}
+
+/**
+ * Whole days since the repository's last activity, or null if it is unknown (a local clone whose commit dates could not be read)
+ */
+export function getDaysSinceActivity(repo: GithubRepo): number | null {
+  const date = getLastActivityDate(repo);
+  return date ? Math.floor((Date.now() - new Date(date).getTime()) / MS_PER_DAY) : null;
+}
@@ -0,0 +1,91 @@
+import { RepoSource } from '../types';
+import { getApiHost, normalizeApiBaseUrl } from './githubHosts';
+
+/**
+ * ID of the source built from the primary username/token pair in Settings
+ */
+export const PRIMARY_SOURCE_ID = 'primary';
+
+/**
+ * Key for additional repository sources in localStorage
+ */
+const SOURCES_KEY = 'gh_sources';
+
+/**
+ * Load the additional (non-primary) repository sources
+ * @returns Saved sources, or an empty list if none are stored or the entry is unreadable
+ */
+export function loadSavedSources(): RepoSource[] {
+  try {
+    const saved = localStorage.getItem(SOURCES_KEY);
+    return saved ? JSON.parse(saved) as RepoSource[] : [];
+  } catch (error) {
+    console.error('Error reading repository sources:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the additional repository sources, dropping incomplete rows and normalizing API URLs
+ * @param sources - Sources edited in Settings
+ * @returns The sources that were actually saved
+ */
+export function saveSources(sources: RepoSource[]): RepoSource[] {
+  const complete = sources
+    .filter(s => s.login.trim() && s.token.trim())
+    .map(s => ({
+      ...s,
+      apiBaseUrl: normalizeApiBaseUrl(s.apiBaseUrl),
+      graphqlUrl: s.graphqlUrl?.trim().replace(/\/+$/, '') || undefined
+    }));
+  localStorage.setItem(SOURCES_KEY, JSON.stringify(complete));
+  return complete;
+}
+
+/**
+ * Create an empty source row for the Settings editor
+ */
+export function createSource(): RepoSource {
+  return {
+    id: `src_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    kind: 'org',
+    login: '',
+    token: ''
+  };
+}
+
+/**
+ * Human-readable label used for source badges and filters
+ */
+export function formatSourceLabel(source: RepoSource): string {
+  const name = source.kind === 'org' ? source.login : `@${source.login}`;
+  return source.apiBaseUrl ? `${name} · ${getApiHost(source.apiBaseUrl)}` : name;
+}
+
+/**
+ * Build the full source list: the primary account first, then any additional sources
+ * @param primaryLogin - Username from the primary credentials
+ * @param primaryToken - Token from the primary credentials
+ * @param extraSources - Saved additional sources
+ * @param primaryApiBaseUrl - Normalized REST base URL for the primary account, if it lives on Enterprise Server
+ * @param primaryGraphqlUrl - GraphQL endpoint override for the primary account
+ */
+export function buildSourceList(
+  primaryLogin: string,
+  primaryToken: string,
+  extraSources: RepoSource[],
+  primaryApiBaseUrl?: string,
+  primaryGraphqlUrl?: string
+): RepoSource[] {
+  const primary: RepoSource[] = primaryToken
+    ? [{
+      id: PRIMARY_SOURCE_ID,
+      kind: 'user',
+      login: primaryLogin,
+      token: primaryToken,
+      apiBaseUrl: primaryApiBaseUrl || undefined,
+      graphqlUrl: primaryGraphqlUrl || undefined
+    }]
+    : [];
+  return [...primary, ...extraSources];
+}
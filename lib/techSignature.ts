@@ -0,0 +1,153 @@
+import { Dependency, TechSignature } from '../types';
+import { LOCKFILES, MANIFEST_FILES, parseLockfile, parseManifest } from './dependencyParsers';
+
+/**
+ * Root files whose mere presence is recorded in `detectedFiles`
+ */
+export const SIGNATURE_FILES = [
+  ...MANIFEST_FILES,
+  ...Object.keys(LOCKFILES),
+  'Dockerfile',
+  'docker-compose.yml',
+  'tsconfig.json',
+  'vite.config.ts',
+  'next.config.js'
+];
+
+// Lockfiles first: they tell which of the JS package managers is in use
+const BUILD_SYSTEMS: [string, string][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['package.json', 'npm/yarn'],
+  ['Cargo.toml', 'cargo'],
+  ['go.mod', 'go modules'],
+  ['poetry.lock', 'poetry'],
+  ['uv.lock', 'uv'],
+  ['pyproject.toml', 'pip/pyproject'],
+  ['requirements.txt', 'pip'],
+  ['Gemfile', 'bundler'],
+  ['pom.xml', 'maven'],
+  ['build.gradle', 'gradle'],
+  ['build.gradle.kts', 'gradle'],
+  ['composer.json', 'composer'],
+];
+
+// Manifests that name the main language; checked in order, so package.json (often just tooling) comes last
+const MANIFEST_LANGUAGES: [string, string][] = [
+  ['Cargo.toml', 'Rust'],
+  ['go.mod', 'Go'],
+  ['pyproject.toml', 'Python'],
+  ['requirements.txt', 'Python'],
+  ['Gemfile', 'Ruby'],
+  ['build.gradle.kts', 'Kotlin'],
+  ['pom.xml', 'Java'],
+  ['build.gradle', 'Java'],
+  ['composer.json', 'PHP'],
+];
+
+/**
+ * Guess a local repository's main language from the manifests at its root
+ * @param rootFiles - File names at the repository root
+ * @returns The language, or 'Unknown' if no manifest names one
+ */
+export function guessLanguage(rootFiles: string[]): string {
+  const match = MANIFEST_LANGUAGES.find(([file]) => rootFiles.includes(file));
+  if (match) return match[1];
+  if (rootFiles.includes('package.json')) return rootFiles.includes('tsconfig.json') ? 'TypeScript' : 'JavaScript';
+  return 'Unknown';
+}
+
+/**
+ * Match `Dockerfile`, `Dockerfile.prod` and `api.dockerfile`
+ */
+export function isDockerfile(fileName: string): boolean {
+  return /^dockerfile(\..+)?$/i.test(fileName) || /\.dockerfile$/i.test(fileName);
+}
+
+/**
+ * Base images named in a Dockerfile's FROM instructions, skipping references to earlier build stages
+ */
+export function parseDockerBaseImages(text: string): string[] {
+  const stages = new Set<string>();
+  const images: string[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^FROM\s+(?:--\S+\s+)*(\S+)(?:\s+AS\s+(\S+))?/i);
+    if (!match) continue;
+    if (!stages.has(match[1].toLowerCase())) images.push(match[1]);
+    if (match[2]) stages.add(match[2].toLowerCase());
+  }
+  return images;
+}
+
+/**
+ * Build a techSignature from a repository's root file names and the contents of its manifests.
+ * Local scans and remote fetches both go through here so the AI sees one structure.
+ * @param rootFiles - File names at the repository root
+ * @param manifests - Contents per manifest or Dockerfile name, for those that could be read
+ */
+export function buildTechSignature(rootFiles: string[], manifests: Record<string, string>): TechSignature {
+  const detectedFiles = rootFiles.filter(name => SIGNATURE_FILES.includes(name) || isDockerfile(name));
+  const packages: Dependency[] = [];
+
+  for (const fileName of MANIFEST_FILES) {
+    if (manifests[fileName] === undefined) continue;
+    try {
+      packages.push(...parseManifest(fileName, manifests[fileName]).map(dep => ({ ...dep, manifest: fileName })));
+    } catch (err) {
+      console.warn(`Could not parse ${fileName}:`, err);
+    }
+  }
+
+  const lockfiles = Object.keys(LOCKFILES).filter(fileName => manifests[fileName] !== undefined);
+  for (const fileName of lockfiles) {
+    let versions: Map<string, string>;
+    try {
+      versions = parseLockfile(fileName, manifests[fileName]);
+    } catch (err) {
+      console.warn(`Could not parse ${fileName}:`, err);
+      continue;
+    }
+    packages.filter(dep => dep.manifest === LOCKFILES[fileName] && !dep.resolved).forEach(dep => {
+      const resolved = versions.get(`${dep.name}@${dep.version}`) || versions.get(dep.name);
+      if (resolved) dep.resolved = resolved;
+    });
+  }
+
+  const baseImages = Object.entries(manifests)
+    .filter(([fileName]) => isDockerfile(fileName))
+    .flatMap(([, text]) => parseDockerBaseImages(text));
+
+  return {
+    detectedFiles,
+    dependencies: Array.from(new Set(packages.map(dep => dep.name))),
+    ...(packages.length ? { packages } : {}),
+    ...(lockfiles.length ? { lockfiles } : {}),
+    buildSystem: BUILD_SYSTEMS.find(([file]) => rootFiles.includes(file))?.[1] || 'unknown',
+    ...(detectedFiles.some(isDockerfile) ? { hasDocker: true } : {}),
+    ...(baseImages.length ? { baseImages: Array.from(new Set(baseImages)) } : {})
+  };
+}
+
+/**
+ * Format a signature's dependencies for an AI prompt: runtime ones first, each with its constraint
+ * and locked version, cut to `limit` per group
+ * @returns One labelled line per non-empty group
+ */
+export function formatDependencies(signature: TechSignature, limit: number): string[] {
+  if (!signature.packages) {
+    return [`Dependencies: ${signature.dependencies.slice(0, limit).join(', ') || 'none declared'}`];
+  }
+
+  const groups: [string, Dependency[]][] = [
+    ['Runtime dependencies', signature.packages.filter(dep => dep.scope === 'prod' || dep.scope === 'peer' || dep.scope === 'optional')],
+    ['Dev/build dependencies', signature.packages.filter(dep => dep.scope === 'dev' || dep.scope === 'build')],
+  ];
+  return groups
+    .filter(([, deps]) => deps.length)
+    .map(([label, deps]) => {
+      const shown = deps.slice(0, limit).map(dep =>
+        `${dep.name}${dep.version ? ` ${dep.version}` : ''}${dep.resolved && dep.resolved !== dep.version ? ` (locked ${dep.resolved})` : ''}`);
+      return `${label}: ${shown.join(', ')}${deps.length > limit ? ` (+${deps.length - limit} more)` : ''}`;
+    });
+}
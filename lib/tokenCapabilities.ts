@@ -0,0 +1,104 @@
+import { RepoCapability, TokenDiagnostics, TokenKind } from '../types';
+
+/**
+ * Key for the last token check per source in localStorage
+ */
+const DIAGNOSTICS_KEY = 'token_diagnostics';
+
+export const CAPABILITY_LABELS: Record<RepoCapability, string> = {
+  privateRepos: 'Private repositories',
+  delete: 'Delete repositories',
+  archive: 'Archive repositories',
+  issues: 'Create issues',
+};
+
+/**
+ * Classic scopes that grant each capability; any one of them is enough
+ */
+const CAPABILITY_SCOPES: Record<RepoCapability, string[]> = {
+  privateRepos: ['repo'],
+  delete: ['delete_repo'],
+  archive: ['repo', 'public_repo'],
+  issues: ['repo', 'public_repo'],
+};
+
+const TOKEN_PREFIXES: [string, TokenKind][] = [
+  ['github_pat_', 'fine-grained'],
+  ['ghp_', 'classic'],
+  ['gho_', 'oauth'],
+  ['ghu_', 'app'],
+  ['ghs_', 'app'],
+];
+
+/**
+ * Tell the token kind from its prefix. Tokens issued before prefixes were introduced are reported as unknown.
+ */
+export function detectTokenKind(token: string): TokenKind {
+  return TOKEN_PREFIXES.find(([prefix]) => token.startsWith(prefix))?.[1] || 'unknown';
+}
+
+/**
+ * Parse the `GitHub-Authentication-Token-Expiration` header, e.g. `2026-03-31 12:00:00 UTC` or `2026-03-31 12:00:00 -0700`
+ * @returns ISO date, or null when the header is missing or unreadable
+ */
+export function parseTokenExpiration(header: string | null): string | null {
+  const match = header?.trim().match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) (UTC|[+-]\d{4})$/);
+  if (!match) return null;
+  const offset = match[3] === 'UTC' ? 'Z' : `${match[3].slice(0, 3)}:${match[3].slice(3)}`;
+  const date = new Date(`${match[1]}T${match[2]}${offset}`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Whether the token's expiry date has passed
+ */
+export function isTokenExpired(diagnostics: Pick<TokenDiagnostics, 'expiresAt'>, now: number = Date.now()): boolean {
+  return !!diagnostics.expiresAt && new Date(diagnostics.expiresAt).getTime() <= now;
+}
+
+/**
+ * Work out which features a token supports. Scopes are only reported for classic and OAuth tokens;
+ * fine-grained and app tokens are limited per repository, so their capabilities stay unknown.
+ */
+export function evaluateToken(token: Omit<TokenDiagnostics, 'capabilities'>): TokenDiagnostics {
+  const expired = isTokenExpired(token, token.checkedAt);
+  const capabilities = Object.fromEntries(
+    (Object.keys(CAPABILITY_SCOPES) as RepoCapability[]).map(capability => [
+      capability,
+      expired ? false : token.scopes === null ? null : CAPABILITY_SCOPES[capability].some(scope => token.scopes!.includes(scope))
+    ])
+  ) as Record<RepoCapability, boolean | null>;
+  return { ...token, capabilities };
+}
+
+/**
+ * Explain why a token cannot be used for a feature
+ * @returns A sentence for the disabled button's tooltip, or null if the feature may work
+ */
+export function getCapabilityBlocker(diagnostics: TokenDiagnostics | undefined, capability: RepoCapability): string | null {
+  if (!diagnostics) return null;
+  if (isTokenExpired(diagnostics)) return 'The token for this source has expired';
+  if (diagnostics.capabilities[capability] !== false) return null;
+  const scopes = CAPABILITY_SCOPES[capability].map(scope => `"${scope}"`).join(' or ');
+  return `The token for this source lacks the ${scopes} scope`;
+}
+
+/**
+ * Load the last token check of every source
+ */
+export function loadTokenDiagnostics(): Record<string, TokenDiagnostics> {
+  try {
+    const saved = localStorage.getItem(DIAGNOSTICS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error reading token diagnostics:', error);
+    return {};
+  }
+}
+
+/**
+ * Persist token checks, keyed by source ID
+ */
+export function saveTokenDiagnostics(diagnostics: Record<string, TokenDiagnostics>): void {
+  localStorage.setItem(DIAGNOSTICS_KEY, JSON.stringify(diagnostics));
+}
@@ -0,0 +1,53 @@
+import { BranchInfo, BranchInventory, GithubRepo } from '../types';
+import { GithubService } from './githubService';
+
+/**
+ * Most branches compared per repository; each one costs one or two requests
+ */
+export const MAX_BRANCHES = 50;
+
+/**
+ * Lists a repository's branches with their age, their distance from the default branch and any open pull request
+ */
+export class BranchInventoryService {
+  private github: GithubService;
+
+  constructor(github: GithubService) {
+    this.github = github;
+  }
+
+  async collect(repo: GithubRepo): Promise<BranchInventory> {
+    const [branches, pulls] = await Promise.all([
+      this.github.fetchBranches(repo.full_name),
+      this.github.fetchOpenPullHeads(repo.full_name)
+    ]);
+    const others = branches.filter(b => b.name !== repo.default_branch);
+
+    const inventory: BranchInfo[] = [];
+    for (const branch of others.slice(0, MAX_BRANCHES)) {
+      const comparison = await this.github.compareBranches(repo.full_name, repo.default_branch, branch.name);
+      if (!comparison) continue; // deleted since it was listed
+      // A branch without commits of its own is an ancestor of the default branch, so the merge base is its head
+      const lastCommitAt = comparison.aheadBy === 0
+        ? comparison.mergeBaseAt
+        : (await this.github.fetchLatestCommit(repo.full_name, branch.name)).date;
+      const pull = pulls.find(p => p.headRef === branch.name && (!p.headRepo || p.headRepo === repo.full_name));
+
+      inventory.push({
+        name: branch.name,
+        lastCommitAt,
+        aheadBy: comparison.aheadBy,
+        behindBy: comparison.behindBy,
+        openPr: pull ? { number: pull.number, url: pull.html_url } : null
+      });
+    }
+
+    return {
+      defaultBranch: repo.default_branch,
+      branches: inventory,
+      truncated: others.length > MAX_BRANCHES,
+      totalBranches: others.length,
+      collectedAt: Date.now()
+    };
+  }
+}
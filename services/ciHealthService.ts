@@ -0,0 +1,32 @@
+import { CiHealth, GithubRepo, WorkflowSummary } from '../types';
+import { GithubService } from './githubService';
+import { getCiStatus } from '../lib/ciHealth';
+
+/**
+ * Reads a repository's GitHub Actions workflows and the outcome of their latest finished runs on the default branch
+ */
+export class CiHealthService {
+  private github: GithubService;
+
+  constructor(github: GithubService) {
+    this.github = github;
+  }
+
+  async collect(repo: GithubRepo): Promise<CiHealth> {
+    const workflowFiles = await this.github.fetchWorkflows(repo.full_name);
+    const runs = workflowFiles.length ? await this.github.fetchRecentWorkflowRuns(repo.full_name, repo.default_branch) : [];
+
+    // Runs come newest first, so the first finished one per workflow is its latest result
+    const workflows: WorkflowSummary[] = workflowFiles.map(file => {
+      const run = runs.find(r => r.workflowId === file.id && r.status === 'completed');
+      return {
+        name: file.name,
+        path: file.path,
+        state: file.state,
+        lastRun: run ? { conclusion: run.conclusion, url: run.html_url, createdAt: run.created_at } : null
+      };
+    });
+
+    return { status: getCiStatus(workflows), workflows, collectedAt: Date.now() };
+  }
+}
@@ -0,0 +1,40 @@
+import { CloneSync, GithubRepo, LocalGitInfo } from '../types';
+import { GithubService } from './githubService';
+import { getCloneSyncStatus } from '../lib/localClones';
+
+/**
+ * Compares a local clone's current branch with the same branch on GitHub
+ */
+export class CloneSyncService {
+  private github: GithubService;
+
+  constructor(github: GithubService) {
+    this.github = github;
+  }
+
+  async check(localGit: LocalGitInfo, remote: GithubRepo): Promise<CloneSync> {
+    const result = (aheadBy: number | null, behindBy: number | null, status = getCloneSyncStatus(aheadBy, behindBy)): CloneSync =>
+      ({ status, remoteFullName: remote.full_name, aheadBy, behindBy, checkedAt: new Date().toISOString() });
+
+    const upstream = localGit.upstream;
+    if (!localGit.headSha) return result(null, null);
+    if (!upstream?.sha) return result(null, null, 'local-only');
+
+    // Exact counts whenever HEAD itself was pushed at some point. Any other failure (rate limit, network, auth)
+    // propagates rather than being mistaken for unpushed work.
+    const comparison = await this.github.compareBranches(remote.full_name, upstream.branch, localGit.headSha);
+    if (comparison) return result(comparison.aheadBy, comparison.behindBy);
+
+    // GitHub does not know HEAD, so the clone has unpushed commits: counted locally since the last fetch,
+    // plus what reached GitHub since then
+    let behindBy: number | null = null;
+    try {
+      behindBy = (await this.github.compareBranches(remote.full_name, upstream.sha, upstream.branch))?.aheadBy ?? null;
+    } catch (err) {
+      console.warn(`Could not compare ${remote.full_name} with its clone:`, err);
+    }
+    const aheadBy = localGit.unpushedCommits;
+    if (aheadBy === 0) return result(0, behindBy);
+    return result(aheadBy, behindBy, behindBy ? 'diverged' : 'ahead');
+  }
+}
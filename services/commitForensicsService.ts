@@ -0,0 +1,35 @@
+import { CommitActivity, GithubRepo } from '../types';
+import { GithubService } from './githubService';
+
+/**
+ * Builds the commit-history profile of a repository from GitHub's statistics endpoints
+ */
+export class CommitForensicsService {
+  private github: GithubService;
+
+  constructor(github: GithubService) {
+    this.github = github;
+  }
+
+  async collect(repo: GithubRepo): Promise<CommitActivity> {
+    const [weeks, contributorCount, latest] = await Promise.all([
+      this.github.fetchCommitActivity(repo.full_name),
+      this.github.fetchContributorCount(repo.full_name),
+      this.github.fetchLatestCommit(repo.full_name, repo.default_branch)
+    ]);
+
+    // GitHub may still be computing the weekly stats; keep the other figures rather than failing,
+    // but leave the weekly ones unknown and the section stale so the next sync asks again
+    const weeklyCommits = weeks ? weeks.map(w => w.total) : null;
+
+    return {
+      weeklyCommits,
+      commitsLastYear: weeklyCommits ? weeklyCommits.reduce((sum, count) => sum + count, 0) : null,
+      activeWeeksLastYear: weeklyCommits ? weeklyCommits.filter(count => count > 0).length : null,
+      contributorCount,
+      lastCommitAuthor: latest.author,
+      lastCommitAt: latest.date,
+      collectedAt: weeklyCommits ? Date.now() : 0
+    };
+  }
+}
@@ -1,7 +1,121 @@
 
-import { GithubRepo } from "../types";
+import { CodeMetrics, GithubRepo, RepoForensics } from "../types";
+import { getUnmergedBranches } from "../lib/branches";
+import { formatDependencies } from "../lib/techSignature";
+import { getLanguageShares, getPortfolioLanguageShares } from "../lib/languages";
 
-export async function analyzeRepository(repo: GithubRepo, readme: string, level: 'superficial' | 'detailed' = 'superficial', fileTree?: string) {
+/**
+ * Unmerged branches listed per repository in the analysis prompt
+ */
+const MAX_PROMPT_BRANCHES = 10;
+
+/**
+ * Dependencies listed per scope group in the analysis prompt
+ */
+const MAX_PROMPT_DEPENDENCIES = 40;
+
+/**
+ * Render measured repository data as a prompt section. Sections are omitted when not collected.
+ */
+function formatForensics(forensics?: RepoForensics): string {
+  if (!forensics) return '';
+  const lines: string[] = [];
+
+  if (forensics.commitActivity) {
+    const activity = forensics.commitActivity;
+    if (activity.commitsLastYear !== null && activity.activeWeeksLastYear !== null) {
+      lines.push(`- Commits in the last 52 weeks: ${activity.commitsLastYear} (active in ${activity.activeWeeksLastYear} of 52 weeks)`);
+    }
+    lines.push(
+      `- Contributors: ${activity.contributorCount}`,
+      `- Last commit: ${activity.lastCommitAt || 'unknown'} by ${activity.lastCommitAuthor || 'unknown'}`
+    );
+  }
+
+  if (forensics.issueHealth) {
+    const health = forensics.issueHealth;
+    // Both figures come from a sample of at most 100 items; say so when the repo has more
+    const issueSample = health.openIssues > (health.issuesSampled ?? 100) ? ` of the newest ${health.issuesSampled ?? 100}` : '';
+    const prSample = health.openPullRequests > (health.pullRequestsSampled ?? 100) ? ` of the oldest ${health.pullRequestsSampled ?? 100}` : '';
+    lines.push(
+      `- Issues: ${health.openIssues} open, ${health.closedIssues} closed, ${health.unansweredIssues}${issueSample} open issues never answered`,
+      `- Pull requests: ${health.openPullRequests} open${health.medianOpenPrAgeDays !== null ? `, median age${prSample} ${health.medianOpenPrAgeDays} days` : ''}${health.oldestOpenPr ? `, oldest opened ${health.oldestOpenPr.createdAt} ("${health.oldestOpenPr.title}")` : ''}`
+    );
+  }
+
+  if (forensics.techSignature) {
+    const signature = forensics.techSignature;
+    lines.push(
+      `- Build system: ${signature.buildSystem}; config files: ${signature.detectedFiles.join(', ') || 'none'}`,
+      ...formatDependencies(signature, MAX_PROMPT_DEPENDENCIES).map(line => `- ${line}`)
+    );
+    if (signature.baseImages?.length) {
+      lines.push(`- Docker base images: ${signature.baseImages.join(', ')}`);
+    }
+  }
+
+  if (forensics.ciHealth) {
+    const ci = forensics.ciHealth;
+    const workflows = ci.workflows.map(w => `${w.name} (${w.state === 'active' ? w.lastRun?.conclusion || 'never finished' : w.state})`);
+    lines.push(`- Has CI: ${ci.workflows.some(w => w.state === 'active') ? 'yes' : 'no'}; status: ${ci.status}${workflows.length ? `; workflows: ${workflows.join(', ')}` : ''}`);
+  }
+
+  if (forensics.forkDivergence) {
+    const divergence = forensics.forkDivergence;
+    lines.push(
+      `- Fork of ${divergence.parentFullName}: ${divergence.aheadBy} commits of its own, ${divergence.behindBy} upstream commits behind. Only the fork's own commits are the owner's work.`
+    );
+  }
+
+  if (forensics.branchInventory) {
+    const unmerged = getUnmergedBranches(forensics.branchInventory, 0).slice(0, MAX_PROMPT_BRANCHES);
+    lines.push(`- Branches with unmerged commits: ${unmerged.length ? unmerged.map(b =>
+      `${b.name} (${b.aheadBy} commits, last ${b.lastCommitAt || 'unknown'}${b.openPr ? `, PR #${b.openPr.number} open` : ', no PR'})`
+    ).join('; ') : 'none'}. Abandoned branches are evidence of forgotten ideas.${forensics.branchInventory.truncated
+      ? ` Only ${forensics.branchInventory.branches.length} of ${forensics.branchInventory.totalBranches ?? 'more'} branches were compared.`
+      : ''}`);
+  }
+
+  return lines.length ? `Hard Forensic Data (measured, not inferred):\n    ${lines.join('\n    ')}` : '';
+}
+
+/**
+ * Render code metrics as a prompt section, or nothing if none were measured
+ */
+function formatCodeMetrics(metrics?: CodeMetrics): string {
+  if (!metrics) return '';
+  const size = metrics.linesOfCode !== null
+    ? `${metrics.sourceFiles} source files, ${metrics.linesOfCode} lines of code`
+    : `${metrics.sourceFiles} source files, ${Math.round(metrics.sourceBytes / 1024)} KB of code`;
+  // LICENSE and docs come from the full root listing, so only the other absences are uncertain
+  const absent = (what: string) => metrics.truncated ? `${what}: unknown (listing incomplete)` : `no ${what}`;
+  const tests = metrics.truncated && metrics.testFiles === 0
+    ? 'unknown (listing incomplete)'
+    : `${metrics.testFiles} test files (test-to-source ratio ${metrics.testToSourceRatio ?? 'n/a'})`;
+  const present = [
+    metrics.ciConfigs.length ? `CI config (${metrics.ciConfigs.join(', ')})` : absent('CI config'),
+    metrics.hasLicense ? 'LICENSE' : 'no LICENSE',
+    metrics.hasContributing ? 'CONTRIBUTING' : absent('CONTRIBUTING'),
+    metrics.hasDocs ? 'docs folder' : 'no docs folder',
+  ];
+  return `Code Metrics (measured from the files${metrics.truncated ? '; the listing was incomplete, so counts are lower bounds and unknowns are not evidence of absence' : ''}):
+    - Size: ${size}
+    - Tests: ${tests}
+    - Project files: ${present.join(', ')}`;
+}
+
+/**
+ * What the Master Nexus Strategy is told about a fork
+ */
+export interface ForkSummary {
+  name: string;
+  upstream: string;
+  uniqueCommits: number | null; // null until the fork was compared with its upstream
+  behindBy: number | null;
+  daysSinceUpdate: number | null;
+}
+
+export async function analyzeRepository(repo: GithubRepo, readme: string, level: 'superficial' | 'detailed' = 'superficial', fileTree?: string, forensics?: RepoForensics) {
   const apiKey = process.env.OPENROUTER_API_KEY;
   if (!apiKey) {
     throw new Error("OpenRouter API key is not configured. Please check your environment.");
@@ -18,10 +132,16 @@ export async function analyzeRepository(repo: GithubRepo, readme: string, level:
 
     ${fileTree ? `File Structure Context:\n${fileTree.substring(0, 5000)}` : ''}
 
+    ${repo.localGit ? `Local clone: branch ${repo.localGit.branch || '(detached HEAD)'}, last commit ${repo.localGit.lastCommitAt || 'unknown'}, ${repo.localGit.recentCommits} commits in the last 90 days (read from .git).` : ''}
+
+    ${formatCodeMetrics(repo.codeMetrics || forensics?.codeMetrics)}
+
+    ${formatForensics(forensics)}
+
     Task: Generate a "10-Point Architectural Assessment" in strict JSON format.
     
     Return JSON with these exact keys:
-    1. "vitalityScore": number (0-100 estimate of production readiness).
+    1. "vitalityScore": number (0-100 estimate of production readiness). Ground it in the Code Metrics and Hard Forensic Data when present, not in README claims: tests, passing CI, a LICENSE and docs are evidence of readiness; no tests, failing or missing CI count against it.
     2. "completionGap": string[] (List of critical missing features/files to make this usable).
     3. "componentCatalog": Array of { name: string, type: "Function"|"Class"|"UI"|"Utility", filePath: string, description: string } (Identify 3-5 HIGH VALUE reusable parts).
     4. "techDebtIndex": string[] (Specific anti-patterns, hardcoded values, or legacy structures found).
@@ -31,6 +151,7 @@ export async function analyzeRepository(repo: GithubRepo, readme: string, level:
     8. "integrationSurface": string[] (List of API endpoints, CLI commands, or exports available for external use).
     9. "architecturalPattern": string (e.g. "Monolith", "Serverless", "Script Collection").
     10. "immediateAction": "Archive" | "Refactor" | "Polish" | "Publish".
+    Also include "projectPulse": string (one plain sentence, under 350 characters, saying what the project does; usable as its GitHub description).
 
     CRITICAL: Be specific. Do not say "Add error handling". Say "Add try/catch to api.ts fetch call".
   `;
@@ -84,7 +205,7 @@ export async function analyzeRepository(repo: GithubRepo, readme: string, level:
   }
 }
 
-export async function summarizeInventory(repos: any[]) {
+export async function summarizeInventory(repos: any[], forks: ForkSummary[] = []) {
   const apiKey = process.env.OPENROUTER_API_KEY;
   if (!apiKey) {
     throw new Error("OpenRouter API key is not configured.");
@@ -97,15 +218,30 @@ export async function summarizeInventory(repos: any[]) {
     Please provide a "Master Nexus Strategy" based on FACTS, not guesses.
     
     FORENSIC DATA EXPLAINED:
-    - "daysSinceUpdate": Actual time since last commit. Use this for Status. (>180 days = Stalled).
-    - "techSignature": Contains actual detected validation files (package.json, Dockerfile) and raw dependencies.
+    - "daysSinceUpdate": Actual time since last commit. Use this for Status. (>180 days = Stalled). null means the date could not be read, not that the repo is active.
+    - "techSignature": Contains actual detected validation files (package.json, Dockerfile) and dependencies with their declared version constraints (and locked versions where a lockfile was read), split into runtime and dev/build, read from local clones and from GitHub alike.
+    - "languages": Percent of code per language, measured by GitHub. Prefer this over the single "language" field.
+    - "stars" / "forks" / "topics" / "license": Real adoption and classification signals from GitHub.
+    - "commitActivity": Measured commit history: commits and active weeks in the last 52 weeks, contributor count, last commit author.
+      A repo with recent active weeks is Active even if its README looks unfinished; zero active weeks means Stalled or Legacy. When commits and active weeks are missing, GitHub had not computed them yet; do not read that as inactivity.
+    - "openIssues" / "openPullRequests": Outstanding demand. A stalled repo with many open issues or waiting PRs is abandoned work, not a finished project.
+    - "localCommitsLast90Days": For local clones only: commits on the checked-out branch in the last 90 days, read from .git.
+    - "ci": GitHub Actions workflows and whether their latest runs on the default branch pass. Failing or missing CI belongs in "maintenanceAudit"; null means it was not checked.
     
     Portfolio Data:
     ${JSON.stringify(repos, null, 2)}
+
+    Forks (copies of other people's projects, listed separately):
+    ${JSON.stringify(forks, null, 2)}
+    - "uniqueCommits": Commits made in the fork that upstream does not have. This is the ONLY work in a fork that belongs to this portfolio.
+    - "behindBy": Upstream commits the fork is missing.
+    - CRITICAL: Never credit the portfolio owner with an upstream project's features, stars or history. Keep forks out of "repoRegistry", "crossPollination" and "consolidationLog".
     
     Return a Master Nexus Strategy in JSON format with:
     1. "executiveSummary": A deep, architectural mission statement for this entire nexus.
-    2. "repoRegistry": Array of objects { name: string, status: "Active" | "Legacy" | "Stalled" | "Candidate-for-Merge", action: string, priority: "High" | "Medium" | "Low", reasoning: string } 
+    2. "repoRegistry": Array of objects { name: string, fullName: string, status: "Active" | "Legacy" | "Stalled" | "Candidate-for-Merge", action: string, actionType: "Archive" | "Merge" | "Develop" | "Maintain", priority: "High" | "Medium" | "Low", reasoning: string } 
+       - CRITICAL: Copy "fullName" exactly from the input; repositories are matched by it because names can repeat.
+       - CRITICAL: "actionType" is the decision behind "action": "Archive" only when the repo should be made read-only.
        - CRITICAL: You MUST include an entry for EVERY SINGLE repository provided in the input. Do not skip any. Do not truncate the list.
        - CRITICAL: "status" must be mathematically derived from 'daysSinceUpdate'.
        - CRITICAL: "action" must reference specific technologies found in 'techSignature' (e.g. "Upgrade React 16 to 18").
@@ -114,6 +250,8 @@ export async function summarizeInventory(repos: any[]) {
     4. "consolidationLog": Array of objects { reposToMerge: string[], proposedNewName: string, rationale: string }
     5. "innovationLab": Array of objects { idea: string, baseRepos: string[], missingLink: string }
     6. "maintenanceAudit": string[] (Specific cleanup items based on 'daysSinceUpdate' and old dependencies in 'techSignature').
+    7. "forkAudit": Array of objects { name: string, upstream: string, verdict: "Delete" | "Sync" | "Contribute-Upstream" | "Keep", reasoning: string }
+       - One entry per fork. A fork with 0 "uniqueCommits" is a "Delete" candidate.
     
     
     Return strictly JSON.
@@ -169,6 +307,7 @@ export async function generateResumePortfolio(repos: any[], analyses: any[]) {
     return {
       name: repo.name,
       language: repo.language,
+      languageShares: getLanguageShares(repo.languages),
       description: repo.description,
       // Include critical forensic data
       techStack: repo.techSignature?.dependencies || [],
@@ -178,10 +317,15 @@ export async function generateResumePortfolio(repos: any[], analyses: any[]) {
     };
   });
 
+  // Measured from GitHub's breakdowns and the local scanner's file walk, so the AI does not have to guess it
+  const languagesBreakdown = getPortfolioLanguageShares(repos);
+
   const prompt = `
     You are a Senior Technical Recruiter and Career Architect for FAANG-level roles.
     
     I have a portfolio of ${repos.length} repositories.
+
+    Measured share of all code per language (percent of bytes): ${JSON.stringify(languagesBreakdown)}
     
     Optimized Forensic Data:
     ${JSON.stringify(optimizedInput, null, 2)}
@@ -196,7 +340,7 @@ export async function generateResumePortfolio(repos: any[], analyses: any[]) {
        
     2. "quantitativeHighlights": Object
        - "totalrepositories": number
-       - "languagesBreakdown": Object { [lang: string]: number }
+       - "languagesBreakdown": Object { [lang: string]: number } (copy the measured shares above)
        - "dominantTechStack": string[]
        - "architecturalPatterns": string[]
        
@@ -259,7 +403,11 @@ export async function generateResumePortfolio(repos: any[], analyses: any[]) {
 
     const data = await response.json();
     const content = data.choices[0]?.message?.content || "{}";
-    return JSON.parse(content);
+    const portfolio = JSON.parse(content);
+    if (Object.keys(languagesBreakdown).length) {
+      portfolio.quantitativeHighlights = { ...portfolio.quantitativeHighlights, languagesBreakdown };
+    }
+    return portfolio;
   } catch (error: any) {
     throw new Error(error.message || "An error occurred during resume generation.");
   }
@@ -1,21 +1,459 @@
 
-import { GithubRepo } from '../types';
+import { GithubRepo, IssueHealth, RepoAffiliation, RepoFetchProgress, PublishableMetadata, RepoMetadata, RepoTreeEntry, TokenDiagnostics, ForkDivergence, RepoParent } from '../types';
+import { NOISE_FOLDERS } from '../lib/fileTree';
+import { githubScheduler } from '../lib/githubScheduler';
+import { getCachedResponse, setCachedResponse, toResponse } from '../lib/githubResponseCache';
+import { DEFAULT_API_BASE_URL, deriveGraphqlUrl, getApiHost } from '../lib/githubHosts';
+import { detectTokenKind, evaluateToken, parseTokenExpiration } from '../lib/tokenCapabilities';
+
+export interface FetchUserReposOptions {
+  affiliation?: RepoAffiliation[];
+  onProgress?: (progress: RepoFetchProgress) => void;
+}
+
+const DEFAULT_AFFILIATION: RepoAffiliation[] = ['owner'];
+
+/**
+ * Upper bound on extra subtree requests made when a recursive tree response is truncated
+ */
+const MAX_SUBTREE_REQUESTS = 40;
+
+interface GitTreeResponse {
+  sha: string;
+  truncated: boolean;
+  tree: { path: string; type: 'blob' | 'tree' | 'commit'; sha: string; size?: number }[];
+}
+
+/**
+ * Repositories per GraphQL metadata query. Each one is an aliased `repository` lookup.
+ */
+const METADATA_BATCH_SIZE = 50;
+
+const REPO_METADATA_FRAGMENT = `
+  fragment RepoMetadata on Repository {
+    nameWithOwner
+    pushedAt
+    stargazerCount
+    forkCount
+    repositoryTopics(first: 20) { nodes { topic { name } } }
+    licenseInfo { spdxId name }
+    languages(first: 20, orderBy: { field: SIZE, direction: DESC }) { edges { size node { name } } }
+    defaultBranchRef { target { ... on Commit { committedDate } } }
+    isFork
+    parent { nameWithOwner url defaultBranchRef { name } }
+  }
+`;
+
+interface RepoMetadataNode {
+  nameWithOwner: string;
+  pushedAt: string | null;
+  stargazerCount: number;
+  forkCount: number;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+  licenseInfo: { spdxId: string | null; name: string } | null;
+  languages: { edges: { size: number; node: { name: string } }[] };
+  defaultBranchRef: { target: { committedDate?: string } } | null;
+  isFork: boolean;
+  parent: { nameWithOwner: string; url: string; defaultBranchRef: { name: string } | null } | null;
+}
+
+/**
+ * Attempts and delay while GitHub computes repository statistics (it answers 202 until ready)
+ */
+const STATS_MAX_ATTEMPTS = 4;
+const STATS_RETRY_DELAY_MS = 2000;
+
+export interface WeeklyCommitCount {
+  week: number; // Unix timestamp (seconds) of the week's Sunday
+  total: number;
+}
+
+export interface LatestCommit {
+  author: string | null;
+  date: string | null;
+}
+
+export interface RepoIssue {
+  number: number;
+  title: string;
+  html_url: string;
+}
+
+export interface BranchRef {
+  name: string;
+  sha: string;
+}
+
+export interface BranchComparison {
+  aheadBy: number;
+  behindBy: number;
+  mergeBaseAt: string | null; // commit date of the merge base; the head's own date when aheadBy is 0
+}
+
+export interface OpenPullHead {
+  number: number;
+  html_url: string;
+  headRef: string;
+  headRepo: string | null; // full name of the repository the PR branch lives in
+}
+
+export interface WorkflowFile {
+  id: number;
+  name: string;
+  path: string;
+  state: string;
+}
+
+export interface WorkflowRun {
+  workflowId: number;
+  status: string;
+  conclusion: string | null;
+  html_url: string;
+  created_at: string;
+}
+
+export interface NewIssue {
+  title: string;
+  body: string;
+  labels: string[];
+}
+
+/**
+ * Open issues and pull requests read per repository for the unanswered count and the median PR age
+ */
+const ISSUE_HEALTH_SAMPLE = 100;
+
+const ISSUE_HEALTH_QUERY = `
+  query IssueHealth($owner: String!, $name: String!) {
+    repository(owner: $owner, name: $name) {
+      openIssues: issues(states: OPEN) { totalCount }
+      closedIssues: issues(states: CLOSED) { totalCount }
+      openPullRequests: pullRequests(states: OPEN, first: ${ISSUE_HEALTH_SAMPLE}, orderBy: { field: CREATED_AT, direction: ASC }) {
+        totalCount
+        nodes { number title url createdAt }
+      }
+      newestOpenIssues: issues(states: OPEN, first: ${ISSUE_HEALTH_SAMPLE}, orderBy: { field: CREATED_AT, direction: DESC }) {
+        nodes { comments { totalCount } }
+      }
+    }
+  }
+`;
+
+interface IssueHealthResponse {
+  repository: {
+    openIssues: { totalCount: number };
+    closedIssues: { totalCount: number };
+    openPullRequests: { totalCount: number; nodes: { number: number; title: string; url: string; createdAt: string }[] };
+    newestOpenIssues: { nodes: { comments: { totalCount: number } }[] };
+  } | null;
+}
+
+export interface RepoTree {
+  entries: RepoTreeEntry[];
+  truncated: boolean; // true when GitHub's limits left parts of the tree unlisted
+}
+
+/**
+ * Parse an RFC 5988 `Link` header into a map of rel -> URL.
+ */
+function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match) links[match[2]] = match[1];
+  }
+  return links;
+}
+
+/**
+ * Read the `page` query parameter from a pagination URL.
+ */
+function pageNumberFromUrl(url: string | undefined): number | null {
+  if (!url) return null;
+  const page = new URL(url).searchParams.get('page');
+  return page ? parseInt(page, 10) : null;
+}
+
+/**
+ * Result of a successful connection test
+ */
+export interface ConnectionInfo {
+  login: string;
+  host: string;
+  enterpriseVersion: string | null; // set by GitHub Enterprise Server
+}
 
 export class GithubService {
   private token: string;
+  private bucket: string;
+  private apiBaseUrl: string;
+  private graphqlUrl: string;
 
-  constructor(token: string) {
+  /**
+   * @param token - Personal access token
+   * @param apiBaseUrl - REST base URL; defaults to github.com, e.g. `https://ghe.example.com/api/v3` for Enterprise Server
+   * @param graphqlUrl - GraphQL endpoint; derived from the REST base URL when omitted
+   */
+  constructor(token: string, apiBaseUrl: string = DEFAULT_API_BASE_URL, graphqlUrl?: string) {
     this.token = token;
+    this.apiBaseUrl = apiBaseUrl;
+    this.graphqlUrl = graphqlUrl || deriveGraphqlUrl(apiBaseUrl);
+    // Rate limits are charged per token and host; the bucket key avoids holding the full token elsewhere
+    this.bucket = apiBaseUrl === DEFAULT_API_BASE_URL ? token.slice(-8) : `${getApiHost(apiBaseUrl)}:${token.slice(-8)}`;
   }
 
-  async fetchUserRepos(): Promise<GithubRepo[]> {
-    const response = await fetch(`https://api.github.com/user/repos?sort=updated&per_page=100&affiliation=owner`, {
-      headers: {
-        Authorization: `token ${this.token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
+  /**
+   * Send an authenticated request through the shared rate-limit scheduler.
+   * GET requests are made conditional on the cached ETag / Last-Modified, and a 304 is answered from the cache.
+   * @param cacheable - Pass false when response headers must be fresh (they are not all replayed from the cache)
+   */
+  private async request(url: string, init: RequestInit = {}, cacheable: boolean = true): Promise<Response> {
+    const headers: Record<string, string> = {
+      Authorization: `token ${this.token}`,
+      Accept: 'application/vnd.github.v3+json',
+      ...(init.headers as Record<string, string> | undefined),
+    };
+    const isGet = cacheable && (!init.method || init.method === 'GET');
+    const cacheKey = `${this.bucket}:${headers.Accept}:${url}`;
+    const cached = isGet ? getCachedResponse(cacheKey) : null;
+
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    const response = await githubScheduler.schedule(this.bucket, () => fetch(url, { ...init, headers }));
+
+    if (response.status === 304 && cached) {
+      return toResponse(cached);
+    }
+    if (isGet && response.status === 200) {
+      await setCachedResponse(cacheKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * Follow the `Link: rel="next"` chain from the first page until every item has been collected.
+   */
+  private async paginate<T>(firstUrl: string, onProgress?: (progress: RepoFetchProgress) => void): Promise<T[]> {
+    const items: T[] = [];
+    let url: string | undefined = firstUrl;
+    let page = 0;
+    let totalPages: number | null = null;
+
+    while (url) {
+      const response = await this.request(url);
+
+      if (!response.ok) {
+        throw new Error(`GitHub API Error: ${response.statusText}`);
+      }
+
+      const batch: T[] = await response.json();
+      items.push(...batch);
+      page++;
+
+      const links = parseLinkHeader(response.headers.get('Link'));
+      totalPages = pageNumberFromUrl(links.last) ?? (links.next ? totalPages : page);
+      onProgress?.({ page, totalPages, loaded: items.length });
+      url = links.next;
+    }
+
+    return items;
+  }
+
+  /**
+   * Check that the host is reachable and accepts the token.
+   * A network-level failure usually means a wrong URL or a certificate the browser does not trust.
+   */
+  async testConnection(): Promise<ConnectionInfo> {
+    let response: Response;
+    try {
+      response = await this.request(`${this.apiBaseUrl}/user`);
+    } catch {
+      throw new Error(`Could not reach ${this.apiBaseUrl}. Check the URL, and if the server uses a company certificate authority, make sure your browser trusts it.`);
+    }
+
+    if (response.status === 401) {
+      throw new Error('The server rejected the token (401 Unauthorized).');
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const user = await response.json();
+    return {
+      login: user.login,
+      host: getApiHost(this.apiBaseUrl),
+      enterpriseVersion: response.headers.get('X-GitHub-Enterprise-Version')
+    };
+  }
+
+  /**
+   * Inspect the token: its kind, classic OAuth scopes and expiry, read from the headers of `GET /user`
+   */
+  async fetchTokenDiagnostics(): Promise<TokenDiagnostics> {
+    const response = await this.request(`${this.apiBaseUrl}/user`, {}, false);
+
+    if (response.status === 401) {
+      throw new Error('The token was rejected (401 Unauthorized). It may be revoked or expired.');
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const user = await response.json();
+    const kind = detectTokenKind(this.token);
+    const scopesHeader = response.headers.get('X-OAuth-Scopes');
+    const hasScopes = scopesHeader !== null && kind !== 'fine-grained' && kind !== 'app';
+
+    return evaluateToken({
+      kind,
+      login: user.login,
+      scopes: hasScopes ? scopesHeader.split(',').map(s => s.trim()).filter(Boolean) : null,
+      expiresAt: parseTokenExpiration(response.headers.get('GitHub-Authentication-Token-Expiration')),
+      checkedAt: Date.now()
+    });
+  }
+
+  async fetchUserRepos(options: FetchUserReposOptions = {}): Promise<GithubRepo[]> {
+    const affiliation = (options.affiliation?.length ? options.affiliation : DEFAULT_AFFILIATION).join(',');
+    return this.paginate<GithubRepo>(
+      `${this.apiBaseUrl}/user/repos?sort=updated&per_page=100&affiliation=${affiliation}`,
+      options.onProgress
+    );
+  }
+
+  async fetchOrgRepos(org: string, onProgress?: (progress: RepoFetchProgress) => void): Promise<GithubRepo[]> {
+    return this.paginate<GithubRepo>(
+      `${this.apiBaseUrl}/orgs/${encodeURIComponent(org)}/repos?sort=updated&per_page=100&type=all`,
+      onProgress
+    );
+  }
+
+  /**
+   * Run a GraphQL query. Partial results are returned; errors only throw when no data came back.
+   */
+  private async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const response = await this.request(this.graphqlUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
     });
 
+    if (!response.ok) {
+      throw new Error(`GitHub GraphQL Error: ${response.statusText}`);
+    }
+
+    const payload = await response.json();
+    if (!payload.data) {
+      throw new Error(`GitHub GraphQL Error: ${payload.errors?.[0]?.message || 'No data returned'}`);
+    }
+    if (payload.errors?.length) {
+      console.warn('GitHub GraphQL returned partial results:', payload.errors);
+    }
+    return payload.data as T;
+  }
+
+  /**
+   * Fetch push date, stars, forks, topics, license, language bytes and the latest default-branch
+   * commit date for many repositories in a few batched GraphQL queries.
+   * @returns Metadata keyed by `full_name`; repos GitHub could not resolve are omitted
+   */
+  async fetchRepoMetadataBulk(fullNames: string[]): Promise<Map<string, RepoMetadata>> {
+    const metadata = new Map<string, RepoMetadata>();
+
+    for (let i = 0; i < fullNames.length; i += METADATA_BATCH_SIZE) {
+      const batch = fullNames.slice(i, i + METADATA_BATCH_SIZE);
+      const lookups = batch.map((fullName, idx) => {
+        const [owner, name] = fullName.split('/');
+        return `r${idx}: repository(owner: ${JSON.stringify(owner)}, name: ${JSON.stringify(name)}) { ...RepoMetadata }`;
+      });
+      const data = await this.graphql<Record<string, RepoMetadataNode | null>>(
+        `query {\n${lookups.join('\n')}\n}\n${REPO_METADATA_FRAGMENT}`
+      );
+
+      batch.forEach((fullName, idx) => {
+        const node = data[`r${idx}`];
+        if (!node) return;
+        metadata.set(fullName, {
+          pushed_at: node.pushedAt || undefined,
+          stargazers_count: node.stargazerCount,
+          forks_count: node.forkCount,
+          topics: node.repositoryTopics.nodes.map(n => n.topic.name),
+          license: node.licenseInfo ? { spdx_id: node.licenseInfo.spdxId, name: node.licenseInfo.name } : null,
+          languages: Object.fromEntries(node.languages.edges.map(e => [e.node.name, e.size])),
+          last_commit_at: node.defaultBranchRef?.target.committedDate,
+          fork: node.isFork,
+          parent: node.parent?.defaultBranchRef
+            ? { full_name: node.parent.nameWithOwner, html_url: node.parent.url, default_branch: node.parent.defaultBranchRef.name }
+            : undefined
+        });
+      });
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Open/closed issue counts, open pull request ages and unanswered issues in one GraphQL query
+   */
+  async fetchIssueHealth(fullName: string): Promise<IssueHealth> {
+    const [owner, name] = fullName.split('/');
+    const data = await this.graphql<IssueHealthResponse>(ISSUE_HEALTH_QUERY, { owner, name });
+    if (!data.repository) {
+      throw new Error(`GitHub GraphQL Error: repository ${fullName} not found`);
+    }
+
+    const { openIssues, closedIssues, openPullRequests, newestOpenIssues } = data.repository;
+    const prAges = openPullRequests.nodes
+      .map(pr => Math.floor((Date.now() - new Date(pr.createdAt).getTime()) / (1000 * 3600 * 24)))
+      .sort((a, b) => a - b);
+
+    return {
+      openIssues: openIssues.totalCount,
+      closedIssues: closedIssues.totalCount,
+      openPullRequests: openPullRequests.totalCount,
+      oldestOpenPr: openPullRequests.nodes[0] || null,
+      medianOpenPrAgeDays: prAges.length ? prAges[Math.floor(prAges.length / 2)] : null,
+      pullRequestsSampled: prAges.length,
+      unansweredIssues: newestOpenIssues.nodes.filter(issue => issue.comments.totalCount === 0).length,
+      issuesSampled: newestOpenIssues.nodes.length,
+      collectedAt: Date.now()
+    };
+  }
+
+  /**
+   * All open issues of a repository. The issues endpoint also lists pull requests; those are dropped.
+   */
+  async fetchOpenIssues(fullName: string): Promise<RepoIssue[]> {
+    const items = await this.paginate<RepoIssue & { pull_request?: unknown }>(
+      `${this.apiBaseUrl}/repos/${fullName}/issues?state=open&per_page=100`
+    );
+    return items
+      .filter(item => !item.pull_request)
+      .map(({ number, title, html_url }) => ({ number, title, html_url }));
+  }
+
+  async createIssue(fullName: string, issue: NewIssue): Promise<RepoIssue> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/issues`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(issue),
+    });
+
+    if (response.status !== 201) {
+      throw new Error(`Failed to create issue. Status: ${response.statusText}. Note: Issues must be enabled and your token needs the 'repo' scope.`);
+    }
+
+    const { number, title, html_url } = await response.json();
+    return { number, title, html_url };
+  }
+
+  async fetchRepoContents(fullName: string, ref?: string): Promise<any[]> {
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/contents${query}`);
+
     if (!response.ok) {
       throw new Error(`GitHub API Error: ${response.statusText}`);
     }
@@ -23,13 +461,8 @@ export class GithubService {
     return response.json();
   }
 
-  async fetchRepoContents(fullName: string): Promise<any[]> {
-    const response = await fetch(`https://api.github.com/repos/${fullName}/contents`, {
-      headers: {
-        Authorization: `token ${this.token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
+  private async fetchGitTree(fullName: string, treeish: string, recursive: boolean): Promise<GitTreeResponse> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/git/trees/${treeish}${recursive ? '?recursive=1' : ''}`);
 
     if (!response.ok) {
       throw new Error(`GitHub API Error: ${response.statusText}`);
@@ -38,12 +471,170 @@ export class GithubService {
     return response.json();
   }
 
+  /**
+   * Fetch the full file tree of a branch through the Git Trees API.
+   * When GitHub truncates the recursive listing, the tree is re-walked one subtree at a time,
+   * skipping noise folders, until the subtree request budget runs out.
+   */
+  async fetchRepoTree(fullName: string, branch: string): Promise<RepoTree> {
+    const full = await this.fetchGitTree(fullName, branch, true);
+    const toEntries = (tree: GitTreeResponse['tree'], prefix: string): RepoTreeEntry[] => tree
+      .filter(item => item.type !== 'commit') // submodules point at other repositories
+      .map(item => ({
+        path: prefix ? `${prefix}/${item.path}` : item.path,
+        type: item.type as RepoTreeEntry['type'],
+        size: item.size
+      }));
+
+    if (!full.truncated) {
+      return { entries: toEntries(full.tree, ''), truncated: false };
+    }
+
+    const root = await this.fetchGitTree(fullName, branch, false);
+    const entries = toEntries(root.tree, '');
+    const pending = root.tree
+      .filter(item => item.type === 'tree' && !NOISE_FOLDERS.has(item.path))
+      .map(item => ({ sha: item.sha, path: item.path }));
+    let requests = 0;
+    let truncated = false;
+
+    while (pending.length > 0) {
+      if (requests >= MAX_SUBTREE_REQUESTS) {
+        truncated = true;
+        break;
+      }
+      const dir = pending.shift()!;
+      requests++;
+
+      const subtree = await this.fetchGitTree(fullName, dir.sha, true);
+      if (!subtree.truncated) {
+        entries.push(...toEntries(subtree.tree, dir.path));
+        continue;
+      }
+
+      // Still too large: list this level only and queue its folders individually
+      const level = await this.fetchGitTree(fullName, dir.sha, false);
+      requests++;
+      entries.push(...toEntries(level.tree, dir.path));
+      level.tree
+        .filter(item => item.type === 'tree' && !NOISE_FOLDERS.has(item.path))
+        .forEach(item => pending.push({ sha: item.sha, path: `${dir.path}/${item.path}` }));
+    }
+
+    return { entries, truncated };
+  }
+
+  /**
+   * Weekly commit totals for the last 52 weeks
+   * @returns Oldest week first, or null if GitHub is still computing the statistics
+   */
+  async fetchCommitActivity(fullName: string): Promise<WeeklyCommitCount[] | null> {
+    for (let attempt = 1; attempt <= STATS_MAX_ATTEMPTS; attempt++) {
+      const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/stats/commit_activity`);
+
+      if (response.status === 202) {
+        // No point waiting after the last attempt
+        if (attempt < STATS_MAX_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, STATS_RETRY_DELAY_MS * attempt));
+        continue;
+      }
+      if (response.status === 204) return [];
+      if (!response.ok) {
+        throw new Error(`GitHub API Error: ${response.statusText}`);
+      }
+
+      const weeks: WeeklyCommitCount[] = await response.json();
+      return weeks.map(w => ({ week: w.week, total: w.total }));
+    }
+    return null;
+  }
+
+  /**
+   * Number of contributors, read from the last page number of a one-per-page listing
+   */
+  async fetchContributorCount(fullName: string): Promise<number> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/contributors?per_page=1&anon=1`);
+
+    if (response.status === 204) return 0; // empty repository
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const lastPage = pageNumberFromUrl(parseLinkHeader(response.headers.get('Link')).last);
+    if (lastPage) return lastPage;
+    const contributors: unknown[] = await response.json();
+    return contributors.length;
+  }
+
+  /**
+   * Author and date of the newest commit on a branch
+   */
+  async fetchLatestCommit(fullName: string, branch: string): Promise<LatestCommit> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/commits?sha=${encodeURIComponent(branch)}&per_page=1`);
+
+    if (response.status === 409) return { author: null, date: null }; // empty repository
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const [commit] = await response.json();
+    if (!commit) return { author: null, date: null };
+    return {
+      author: commit.author?.login || commit.commit?.author?.name || null,
+      date: commit.commit?.author?.date || null
+    };
+  }
+
+  /**
+   * SHA of the commit a branch points to, or null for an empty repository
+   */
+  async fetchBranchHeadSha(fullName: string, branch: string): Promise<string | null> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/commits/${encodeURIComponent(branch)}`, {
+      headers: { Accept: 'application/vnd.github.sha' },
+    });
+
+    if (response.status === 409 || response.status === 404 || response.status === 422) return null;
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    return (await response.text()).trim();
+  }
+
+  /**
+   * Raw contents of a file at a given ref, or null if the file does not exist there
+   */
+  async fetchFileContent(fullName: string, path: string, ref: string): Promise<string | null> {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`, {
+      headers: { Accept: 'application/vnd.github.v3.raw' },
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    return response.text();
+  }
+
+  /**
+   * Published URL of a repository's GitHub Pages site, or null if it has none
+   */
+  async fetchPagesUrl(fullName: string): Promise<string | null> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/pages`);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const pages: { html_url?: string } = await response.json();
+    return pages.html_url || null;
+  }
+
   async fetchRepoReadme(fullName: string): Promise<string> {
-    const response = await fetch(`https://api.github.com/repos/${fullName}/readme`, {
-      headers: {
-        Authorization: `token ${this.token}`,
-        Accept: 'application/vnd.github.v3.raw',
-      },
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/readme`, {
+      headers: { Accept: 'application/vnd.github.v3.raw' },
     });
 
     if (!response.ok) {
@@ -54,15 +645,183 @@ export class GithubService {
     return response.text();
   }
 
-  async deleteRepo(fullName: string): Promise<void> {
-    const response = await fetch(`https://api.github.com/repos/${fullName}`, {
-      method: 'DELETE',
-      headers: {
-        Authorization: `token ${this.token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
+  /**
+   * Archive or unarchive a repository. Archiving makes it read-only and can be undone.
+   * @returns The updated repository as reported by GitHub
+   */
+  async setArchived(fullName: string, archived: boolean): Promise<GithubRepo> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ archived }),
     });
 
+    if (!response.ok) {
+      const verb = archived ? 'archive' : 'unarchive';
+      throw new Error(`Failed to ${verb} repository. Status: ${response.statusText}. Note: Your token needs the 'repo' scope and admin access.`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Publish description, homepage and topics. Description and homepage go through PATCH;
+   * topics have their own endpoint, which replaces the whole list.
+   */
+  async updateRepoMetadata(fullName: string, update: Partial<PublishableMetadata>): Promise<void> {
+    const fields: Record<string, string> = {};
+    if (update.description !== undefined) fields.description = update.description;
+    if (update.homepage !== undefined) fields.homepage = update.homepage;
+
+    if (Object.keys(fields).length > 0) {
+      const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to update repository details. Status: ${response.statusText}. Note: Your token needs the 'repo' scope.`);
+      }
+    }
+
+    if (update.topics !== undefined) {
+      const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/topics`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ names: update.topics }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to update repository topics. Status: ${response.statusText}`);
+      }
+    }
+  }
+
+  /**
+   * GitHub Actions workflow files of a repository
+   */
+  async fetchWorkflows(fullName: string): Promise<WorkflowFile[]> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/actions/workflows?per_page=100`);
+
+    if (response.status === 404) return []; // Actions disabled or unavailable on this host
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.workflows.map((w: WorkflowFile) => ({ id: w.id, name: w.name, path: w.path, state: w.state }));
+  }
+
+  /**
+   * Most recent workflow runs on a branch, newest first
+   */
+  async fetchRecentWorkflowRuns(fullName: string, branch: string): Promise<WorkflowRun[]> {
+    const response = await this.request(
+      `${this.apiBaseUrl}/repos/${fullName}/actions/runs?branch=${encodeURIComponent(branch)}&per_page=100&exclude_pull_requests=true`
+    );
+
+    if (response.status === 404) return [];
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.workflow_runs.map((r: { workflow_id: number; status: string; conclusion: string | null; html_url: string; created_at: string }) => ({
+      workflowId: r.workflow_id,
+      status: r.status,
+      conclusion: r.conclusion,
+      html_url: r.html_url,
+      created_at: r.created_at
+    }));
+  }
+
+  /**
+   * Every branch of a repository with the commit it points to
+   */
+  async fetchBranches(fullName: string): Promise<BranchRef[]> {
+    const branches = await this.paginate<{ name: string; commit: { sha: string } }>(
+      `${this.apiBaseUrl}/repos/${fullName}/branches?per_page=100`
+    );
+    return branches.map(b => ({ name: b.name, sha: b.commit.sha }));
+  }
+
+  /**
+   * Compare a branch with a base branch of the same repository
+   * @param fullName - The repository
+   * @param base - Branch the work would be merged into, usually the default branch
+   * @param head - Branch to compare
+   * @returns The counts, or null if GitHub does not know one of the refs (e.g. a commit that was never pushed)
+   */
+  async compareBranches(fullName: string, base: string, head: string): Promise<BranchComparison | null> {
+    const response = await this.request(
+      `${this.apiBaseUrl}/repos/${fullName}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}?per_page=1`
+    );
+
+    if (response.status === 404 || response.status === 422) return null;
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    // per_page=1 keeps the commit list out of the response; only the counts are needed
+    const comparison = await response.json();
+    return {
+      aheadBy: comparison.ahead_by,
+      behindBy: comparison.behind_by,
+      mergeBaseAt: comparison.merge_base_commit?.commit?.committer?.date || null
+    };
+  }
+
+  /**
+   * Head branches of a repository's open pull requests
+   */
+  async fetchOpenPullHeads(fullName: string): Promise<OpenPullHead[]> {
+    const pulls = await this.paginate<{ number: number; html_url: string; head: { ref: string; repo: { full_name: string } | null } }>(
+      `${this.apiBaseUrl}/repos/${fullName}/pulls?state=open&per_page=100`
+    );
+    return pulls.map(p => ({ number: p.number, html_url: p.html_url, headRef: p.head.ref, headRepo: p.head.repo?.full_name || null }));
+  }
+
+  /**
+   * Compare a fork's branch with its upstream's default branch
+   * @param fullName - The fork
+   * @param branch - Branch of the fork to compare, usually its default branch
+   * @param parent - The upstream repository
+   */
+  async fetchForkDivergence(fullName: string, branch: string, parent: RepoParent): Promise<ForkDivergence> {
+    const owner = fullName.split('/')[0];
+    const response = await this.request(
+      `${this.apiBaseUrl}/repos/${parent.full_name}/compare/${encodeURIComponent(parent.default_branch)}...${encodeURIComponent(owner)}:${encodeURIComponent(branch)}?per_page=1`
+    );
+
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText}`);
+    }
+
+    const comparison = await response.json();
+    return {
+      parentFullName: parent.full_name,
+      aheadBy: comparison.ahead_by,
+      behindBy: comparison.behind_by,
+      collectedAt: Date.now()
+    };
+  }
+
+  /**
+   * Download a zip of a branch. The API link needs the token and stops working once the repo is deleted,
+   * so the archive itself is fetched rather than linked.
+   */
+  async downloadZipball(fullName: string, ref: string): Promise<Blob> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}/zipball/${encodeURIComponent(ref)}`, {}, false);
+
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText || response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  async deleteRepo(fullName: string): Promise<void> {
+    const response = await this.request(`${this.apiBaseUrl}/repos/${fullName}`, { method: 'DELETE' });
+
     if (response.status !== 204) {
       throw new Error(`Failed to delete repository. Status: ${response.statusText}. Note: Your token needs the 'delete_repo' scope.`);
     }
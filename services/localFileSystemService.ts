@@ -1,11 +1,46 @@
 
-import { GithubRepo } from '../types';
+import { GithubRepo, LocalScanProgress, SourceFile } from '../types';
+import { DEFAULT_SCAN_EXCLUSIONS, DEFAULT_SCAN_MAX_DEPTH, IgnoreRule, isIgnored, parseIgnorePatterns, readGitignore } from '../lib/ignorePatterns';
+import { buildTechSignature, guessLanguage, isDockerfile } from '../lib/techSignature';
+import { LOCKFILES, MANIFEST_FILES } from '../lib/dependencyParsers';
+import { LocalGitService } from './localGitService';
+import { SourceTreeService } from './sourceTreeService';
+import { summarizeLanguages } from '../lib/languageDetection';
+import { computeCodeMetrics } from '../lib/codeMetrics';
+import { getPrimaryLanguage } from '../lib/languages';
+import { disambiguateLocalRepos, getLocalRepoId } from '../lib/localRepos';
+
+export interface ScanOptions {
+    /** `.gitignore`-style patterns relative to the picked folder */
+    exclusions?: string[];
+    /** Folder levels below the picked folder searched for repositories */
+    maxDepth?: number;
+    onProgress?: (progress: LocalScanProgress) => void;
+    /** Aborting stops the scan and keeps the repositories found so far */
+    signal?: AbortSignal;
+}
+
+// The DOM typings in use do not declare directory iteration yet
+type IterableDirectory = { values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle> };
 
 export class LocalFileSystemService {
-    async scanForRepos(directoryHandle: FileSystemDirectoryHandle, path: string = ''): Promise<GithubRepo[]> {
-        console.log(`Scanning folder: ${directoryHandle.name} (path: ${path})`);
+    private repos: GithubRepo[] = [];
+    private foldersVisited = 0;
+    private exclusions: IgnoreRule[] = [];
+
+    async scanForRepos(directoryHandle: FileSystemDirectoryHandle, options: ScanOptions = {}): Promise<GithubRepo[]> {
+        this.repos = [];
+        this.foldersVisited = 0;
+        this.exclusions = parseIgnorePatterns((options.exclusions ?? DEFAULT_SCAN_EXCLUSIONS).join('\n'));
+        await this.scanFolder(directoryHandle, '', 0, this.exclusions, options);
+        return disambiguateLocalRepos(this.repos);
+    }
 
-        const repos: GithubRepo[] = [];
+    private async scanFolder(directoryHandle: FileSystemDirectoryHandle, path: string, depth: number, inherited: IgnoreRule[], options: ScanOptions): Promise<void> {
+        if (options.signal?.aborted) return;
+        console.log(`Scanning folder: ${directoryHandle.name} (path: ${path})`);
+        this.foldersVisited++;
+        options.onProgress?.({ foldersVisited: this.foldersVisited, reposFound: this.repos.length, currentPath: path || directoryHandle.name });
 
         // Check if this directory is a git repo
         let isGit = false;
@@ -18,44 +53,36 @@ export class LocalFileSystemService {
 
         if (isGit) {
             console.log(`✅ Found Git Repo at: ${path || directoryHandle.name}`);
-            const repo = await this.extractRepoMetadata(directoryHandle, path || directoryHandle.name);
-            repos.push(repo);
-            return repos;
+            this.repos.push(await this.extractRepoMetadata(directoryHandle, path || directoryHandle.name, path, options.signal));
+            return;
         }
 
-        // If not a git repo, recurse into subdirectories
+        if (depth >= (options.maxDepth ?? DEFAULT_SCAN_MAX_DEPTH)) return;
+
+        // If not a git repo, recurse into subdirectories that no exclusion or .gitignore on the way matches
+        const rules = [...inherited, ...await readGitignore(directoryHandle, path)];
         try {
-            for await (const entry of (directoryHandle as any).values()) {
-                if (entry.kind === 'directory') {
-                    // Skip common noise folders and hidden folders (except we already checked for .git)
-                    if (entry.name === 'node_modules' || entry.name === 'dist' || entry.name === 'build' || entry.name.startsWith('.')) {
-                        continue;
-                    }
-
-                    try {
-                        const subRepos = await this.scanForRepos(entry, path ? `${path}/${entry.name}` : entry.name);
-                        repos.push(...subRepos);
-                    } catch (subErr) {
-                        console.warn(`Skipping directory ${entry.name} due to error:`, subErr);
-                    }
+            for await (const entry of (directoryHandle as unknown as IterableDirectory).values()) {
+                if (options.signal?.aborted) return;
+                if (entry.kind !== 'directory') continue;
+
+                const entryPath = path ? `${path}/${entry.name}` : entry.name;
+                if (isIgnored(rules, entryPath, true)) continue;
+
+                try {
+                    await this.scanFolder(entry, entryPath, depth + 1, rules, options);
+                } catch (subErr) {
+                    console.warn(`Skipping directory ${entry.name} due to error:`, subErr);
                 }
             }
         } catch (err) {
             console.error(`Failed to iterate directory ${directoryHandle.name}:`, err);
         }
-
-        return repos;
     }
 
-    private async extractRepoMetadata(handle: FileSystemDirectoryHandle, path: string): Promise<GithubRepo & { techSignature?: any }> {
+    private async extractRepoMetadata(handle: FileSystemDirectoryHandle, path: string, scanPath: string, signal?: AbortSignal): Promise<GithubRepo> {
         let description = '';
-        let language = 'Unknown';
         let readmeContent = '';
-        let techSignature: any = {
-            detectedFiles: [],
-            dependencies: [],
-            buildSystem: 'unknown'
-        };
 
         // 1. Try to read README
         try {
@@ -66,58 +93,74 @@ export class LocalFileSystemService {
         } catch { /* No README */ }
 
         // 2. Forensic Scan for Config Files & Dependencies
-        // Check for package.json (Node/JS)
-        try {
-            const pkgHandle = await handle.getFileHandle('package.json');
-            techSignature.detectedFiles.push('package.json');
-            techSignature.buildSystem = 'npm/yarn';
-            language = 'TypeScript/JavaScript';
+        const rootFiles: string[] = [];
+        const rootNames: string[] = [];
+        for await (const entry of (handle as unknown as IterableDirectory).values()) {
+            rootNames.push(entry.name);
+            if (entry.kind === 'file') rootFiles.push(entry.name);
+        }
 
-            const file = await pkgHandle.getFile();
-            const text = await file.text();
-            const pkg = JSON.parse(text);
-            if (!description) description = pkg.description || '';
+        const manifests: Record<string, string> = {};
+        const toRead = rootFiles.filter(name => MANIFEST_FILES.includes(name) || Object.hasOwn(LOCKFILES, name) || isDockerfile(name));
+        for (const fileName of toRead) {
+            try {
+                const file = await (await handle.getFileHandle(fileName)).getFile();
+                manifests[fileName] = await file.text();
+            } catch { /* Unreadable file */ }
+        }
 
-            // Extract top dependencies to catch conflicts/overlaps
-            const rawDeps = { ...pkg.dependencies, ...pkg.devDependencies };
-            techSignature.dependencies = Object.keys(rawDeps).slice(0, 15); // Top 15 to save context
-        } catch { /* Not a Node repo */ }
+        // Package description fallback (Node/JS)
+        if (manifests['package.json']) {
+            try {
+                if (!description) description = JSON.parse(manifests['package.json']).description || '';
+            } catch { /* Malformed package.json */ }
+        }
 
-        // Check for other common configs (Python, Rust, Docker, etc)
-        const commonConfigs = ['requirements.txt', 'pyproject.toml', 'Cargo.toml', 'go.mod', 'Dockerfile', 'docker-compose.yml', 'tsconfig.json', 'vite.config.ts', 'next.config.js'];
+        const techSignature = buildTechSignature(rootFiles, manifests);
 
-        for (const configName of commonConfigs) {
-            try {
-                await handle.getFileHandle(configName);
-                techSignature.detectedFiles.push(configName);
-                if (configName.endsWith('.toml')) language = 'Rust/Python';
-                if (configName.endsWith('.go')) language = 'Go';
-                if (configName === 'requirements.txt') language = 'Python';
-                if (configName === 'Dockerfile') techSignature.hasDocker = true;
-            } catch { /* File doesn't exist */ }
+        // 3. Real commit history from .git, so local repos are not all "active today"
+        let localGit: GithubRepo['localGit'];
+        try {
+            localGit = await new LocalGitService(await handle.getDirectoryHandle('.git'), signal).read() || undefined;
+        } catch (err) {
+            console.warn(`Could not read .git of ${path}:`, err);
+        }
+
+        // 4. Language breakdown and code metrics measured from the source files
+        let sourceTree: { files: SourceFile[]; truncated: boolean } | null = null;
+        try {
+            sourceTree = await new SourceTreeService(signal).collect(handle, this.exclusions, scanPath);
+        } catch (err) {
+            console.warn(`Could not walk the files of ${path}:`, err);
         }
+        const languageStats = sourceTree ? summarizeLanguages(sourceTree.files, sourceTree.truncated) : null;
+        const measured = languageStats?.filesCounted ? languageStats : null;
 
         return {
-            id: Math.floor(Math.random() * 1000000),
+            id: getLocalRepoId(path, localGit),
             name: handle.name,
             full_name: `local/${path}`,
             description: description || 'Local repository',
             private: true,
             html_url: '',
-            language: language,
-            updated_at: new Date().toISOString(), // In a real app, we'd get file mtime, but FileSystemAccessAPI doesn't expose it easily for directories without iterating files
+            language: getPrimaryLanguage(measured?.bytes) || guessLanguage(rootFiles),
+            ...(measured ? { languages: measured.bytes, languageLines: measured.lines } : {}),
+            updated_at: localGit?.lastCommitAt || '', // unknown rather than the scan or clone time
+            last_commit_at: localGit?.lastCommitAt || undefined,
             readme_content: readmeContent,
-            default_branch: 'main',
+            default_branch: localGit?.branch || 'main',
             isLocal: true,
             localPath: path,
-            techSignature // Pass this new hard data along
-        } as any;
+            techSignature, // Pass this new hard data along
+            localGit,
+            ...(sourceTree ? { codeMetrics: computeCodeMetrics(sourceTree.files, true, sourceTree.truncated, rootNames) } : {})
+        };
     }
 
-    async selectAndScan(): Promise<GithubRepo[]> {
+    async selectAndScan(options: ScanOptions = {}): Promise<GithubRepo[]> {
         try {
             const handle = await (window as any).showDirectoryPicker();
-            return await this.scanForRepos(handle);
+            return await this.scanForRepos(handle, options);
         } catch (err) {
             console.error('Error selecting directory:', err);
             throw err;
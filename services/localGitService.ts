@@ -0,0 +1,162 @@
+import { LocalGitInfo } from '../types';
+import { CommitObject, GitConfig, inflateObject, isCommitEntry, parseCommitObject, parseGitConfig, parseHeadFile, parsePackedRefs, parseReflog } from '../lib/gitObjects';
+
+/**
+ * Window for the recent commit count
+ */
+export const RECENT_COMMIT_WINDOW_DAYS = 90;
+
+/**
+ * Most loose commits followed back from HEAD
+ */
+const MAX_COMMITS_WALKED = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the current branch, the last commit date and recent activity straight from a `.git` directory.
+ * Only refs, reflogs and loose objects are read; commits that live in pack files are covered by the reflog where it recorded them.
+ */
+export class LocalGitService {
+  private gitDir: FileSystemDirectoryHandle;
+  private signal?: AbortSignal;
+
+  /**
+   * @param gitDir - The `.git` directory
+   * @param signal - Stops the commit walks early; what was read so far is reported as incomplete
+   */
+  constructor(gitDir: FileSystemDirectoryHandle, signal?: AbortSignal) {
+    this.gitDir = gitDir;
+    this.signal = signal;
+  }
+
+  /**
+   * @returns What could be read, or null if HEAD is missing or unreadable
+   */
+  async read(now: number = Date.now()): Promise<LocalGitInfo | null> {
+    const headText = await this.readText('HEAD');
+    const head = headText ? parseHeadFile(headText) : null;
+    if (!head) return null;
+
+    const headSha = head.sha || await this.resolveRef(head.ref!);
+    const reflog = parseReflog((head.ref && await this.readText(`logs/${head.ref}`)) || await this.readText('logs/HEAD') || '');
+    const cutoff = now - RECENT_COMMIT_WINDOW_DAYS * DAY_MS;
+
+    const walk = headSha ? await this.walkFirstParents(headSha, cutoff) : { head: null, recent: 0, complete: false };
+    const reflogCommits = reflog.filter(e => isCommitEntry(e) && e.timestamp >= cutoff).length;
+    // Only a `commit:` entry dates the commit; `clone:` or `pull:` entries record when the ref moved locally
+    const headEntry = [...reflog].reverse().find(e => e.newSha === headSha && isCommitEntry(e));
+
+    // The commit object itself, else the reflog entry that created it. A packed HEAD without one stays unknown
+    const lastCommitAt = walk.head?.authorDate || (headEntry ? new Date(headEntry.timestamp).toISOString() : null);
+
+    const branch = head.ref?.replace(/^refs\/heads\//, '') || null;
+    const config = parseGitConfig(await this.readText('config') || '');
+    const upstream = branch ? await this.resolveUpstream(branch, config) : null;
+
+    return {
+      branch,
+      headSha,
+      lastCommitAt,
+      // A walk that reached a packed commit undercounts, so the reflog may know more
+      recentCommits: walk.complete ? walk.recent : Math.max(walk.recent, reflogCommits),
+      remotes: config.remotes,
+      upstream,
+      unpushedCommits: headSha && upstream?.sha ? await this.countCommitsUntil(headSha, upstream.sha) : null
+    };
+  }
+
+  /**
+   * Remote-tracking ref of a branch: the configured upstream, else the same branch name on `origin`
+   * (or the only remote). A null SHA means the branch was never pushed or fetched.
+   */
+  private async resolveUpstream(branch: string, config: GitConfig): Promise<LocalGitInfo['upstream']> {
+    const tracking = config.branches[branch];
+    const remote = tracking?.remote || (config.remotes.some(r => r.name === 'origin') ? 'origin' : config.remotes[0]?.name);
+    if (!remote || remote === '.') return null;
+
+    const remoteBranch = tracking?.merge?.replace(/^refs\/heads\//, '') || branch;
+    return { remote, branch: remoteBranch, sha: await this.resolveRef(`refs/remotes/${remote}/${remoteBranch}`) };
+  }
+
+  /**
+   * Count first-parent commits from `sha` until `stop` is reached
+   * @returns The count, or null if the walk hit a packed commit or the walk limit first
+   */
+  private async countCommitsUntil(sha: string, stop: string): Promise<number | null> {
+    let count = 0;
+    let next: string | undefined = sha;
+    while (next && next !== stop && count < MAX_COMMITS_WALKED) {
+      if (this.signal?.aborted) return null;
+      const commit = await this.readCommit(next);
+      if (!commit) return null;
+      count++;
+      next = commit.parents[0];
+    }
+    return next === stop ? count : null;
+  }
+
+  /**
+   * Resolve a ref through its loose file, falling back to packed-refs
+   */
+  private async resolveRef(ref: string): Promise<string | null> {
+    const loose = (await this.readText(ref))?.trim();
+    if (loose && /^[0-9a-f]{40}$/i.test(loose)) return loose.toLowerCase();
+    const packed = await this.readText('packed-refs');
+    return packed ? parsePackedRefs(packed).get(ref) || null : null;
+  }
+
+  /**
+   * Follow first parents from a commit while commits are newer than the cutoff
+   * @returns The starting commit if it is loose, the number of commits inside the window,
+   *          and whether the walk saw the whole window
+   */
+  private async walkFirstParents(sha: string, cutoff: number): Promise<{ head: CommitObject | null; recent: number; complete: boolean }> {
+    let head: CommitObject | null = null;
+    let recent = 0;
+    let next: string | undefined = sha;
+
+    while (next && recent < MAX_COMMITS_WALKED) {
+      if (this.signal?.aborted) return { head, recent, complete: false };
+      const commit = await this.readCommit(next);
+      if (!commit) return { head, recent, complete: false }; // packed or missing
+      head = head || commit;
+      if (new Date(commit.authorDate).getTime() < cutoff) return { head, recent, complete: true };
+      recent++;
+      next = commit.parents[0];
+    }
+    return { head, recent, complete: !next };
+  }
+
+  private async readCommit(sha: string): Promise<CommitObject | null> {
+    const file = await this.getFile(`objects/${sha.slice(0, 2)}/${sha.slice(2)}`);
+    if (!file) return null;
+    try {
+      return parseCommitObject(await inflateObject(await file.arrayBuffer()));
+    } catch (err) {
+      console.warn(`Could not inflate object ${sha}:`, err);
+      return null;
+    }
+  }
+
+  private async readText(path: string): Promise<string | null> {
+    const file = await this.getFile(path);
+    return file ? file.text() : null;
+  }
+
+  /**
+   * Open a file below the `.git` directory, or null if any part of the path is missing
+   */
+  private async getFile(path: string): Promise<File | null> {
+    const segments = path.split('/');
+    try {
+      let dir = this.gitDir;
+      for (const segment of segments.slice(0, -1)) {
+        dir = await dir.getDirectoryHandle(segment);
+      }
+      return await (await dir.getFileHandle(segments[segments.length - 1])).getFile();
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { GithubRepo, RemoteTechSignature } from '../types';
+import { GithubService } from './githubService';
+import { buildTechSignature, isDockerfile } from '../lib/techSignature';
+import { MANIFEST_FILES } from '../lib/dependencyParsers';
+
+/**
+ * Most Dockerfiles read per repository
+ */
+const MAX_DOCKERFILES = 3;
+
+/**
+ * Reads dependency manifests and Dockerfiles from a GitHub repository's default branch
+ * into the same techSignature the local scanner produces
+ */
+export class ManifestService {
+  private github: GithubService;
+
+  constructor(github: GithubService) {
+    this.github = github;
+  }
+
+  /**
+   * @param repo - The repository
+   * @param cached - A previously collected signature; reused as is when the branch head has not moved
+   * @returns The signature, or null for an empty repository
+   */
+  async collect(repo: GithubRepo, cached?: RemoteTechSignature): Promise<RemoteTechSignature | null> {
+    const commitSha = await this.github.fetchBranchHeadSha(repo.full_name, repo.default_branch);
+    if (!commitSha) return null;
+    if (cached?.commitSha === commitSha) return cached;
+
+    const rootEntries: { name: string; type: string }[] = await this.github.fetchRepoContents(repo.full_name, commitSha);
+    const rootFiles = rootEntries.filter(e => e.type === 'file').map(e => e.name);
+    // Lockfiles are left out: they can run to megabytes, and the manifests already carry the constraints
+    const toRead = [
+      ...rootFiles.filter(name => MANIFEST_FILES.includes(name)),
+      ...rootFiles.filter(isDockerfile).slice(0, MAX_DOCKERFILES)
+    ];
+
+    const manifests: Record<string, string> = {};
+    for (const fileName of toRead) {
+      const text = await this.github.fetchFileContent(repo.full_name, fileName, commitSha);
+      if (text !== null) manifests[fileName] = text;
+    }
+
+    return {
+      ...buildTechSignature(rootFiles, manifests),
+      commitSha,
+      collectedAt: Date.now()
+    };
+  }
+}
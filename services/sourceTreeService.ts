@@ -0,0 +1,113 @@
+import { SourceFile } from '../types';
+import { IgnoreRule, isIgnored, parseIgnorePatterns, readGitignore } from '../lib/ignorePatterns';
+import { countLines, getLanguageForFile, getLanguageForShebang, isExcludedFromLanguageStats, isMinified } from '../lib/languageDetection';
+
+/**
+ * Most files listed per repository
+ */
+const MAX_FILES = 5000;
+
+/**
+ * Code files above this size are not counted: at that size source is almost always generated or bundled
+ */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Hidden folders that are walked even when excluded, because they hold CI configuration
+ */
+const WALKED_HIDDEN_FOLDERS = new Set(['.github', '.circleci']);
+
+// The DOM typings in use do not declare directory iteration yet
+type IterableDirectory = { values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle> };
+
+/**
+ * Walks a local repository and classifies its files by language, counting the lines of code files.
+ * Files matched by the scan exclusions, `.git/info/exclude` or any `.gitignore` on the way are skipped.
+ * The result feeds both the language breakdown and the code metrics.
+ */
+export class SourceTreeService {
+  private files: SourceFile[] = [];
+  private truncated = false;
+  private rootPath = '';
+  private signal?: AbortSignal;
+
+  /**
+   * @param signal - Stops the walk early; the files listed so far are returned as truncated
+   */
+  constructor(signal?: AbortSignal) {
+    this.signal = signal;
+  }
+
+  /**
+   * @param root - The repository folder
+   * @param exclusions - The user's scan exclusions, relative to the scanned folder
+   * @param rootPath - The repository's path relative to the scanned folder ('' if it is the scanned folder)
+   */
+  async collect(root: FileSystemDirectoryHandle, exclusions: IgnoreRule[] = [], rootPath: string = ''): Promise<{ files: SourceFile[]; truncated: boolean }> {
+    this.files = [];
+    this.truncated = false;
+    this.rootPath = rootPath;
+    await this.walk(root, '', [...exclusions, ...await this.readInfoExclude(root)]);
+    return { files: this.files, truncated: this.truncated };
+  }
+
+  // Patterns are matched against paths from the scanned folder, file paths are recorded from the repository root
+  private scanPath(path: string): string {
+    return this.rootPath && path ? `${this.rootPath}/${path}` : this.rootPath || path;
+  }
+
+  private async walk(dir: FileSystemDirectoryHandle, path: string, inherited: IgnoreRule[]): Promise<void> {
+    const rules = [...inherited, ...await readGitignore(dir, this.scanPath(path))];
+    for await (const entry of (dir as unknown as IterableDirectory).values()) {
+      if (this.signal?.aborted) {
+        this.truncated = true;
+        return;
+      }
+      const entryPath = path ? `${path}/${entry.name}` : entry.name;
+
+      if (entry.kind === 'directory') {
+        if (entry.name === '.git') continue;
+        if (!WALKED_HIDDEN_FOLDERS.has(entry.name) && isIgnored(rules, this.scanPath(entryPath), true)) continue;
+        await this.walk(entry, entryPath, rules);
+      } else {
+        if (isIgnored(rules, this.scanPath(entryPath), false)) continue;
+        if (this.files.length >= MAX_FILES) {
+          this.truncated = true;
+          return;
+        }
+        this.files.push(await this.classify(entry, entryPath));
+      }
+      if (this.truncated) return;
+    }
+  }
+
+  private async readInfoExclude(root: FileSystemDirectoryHandle): Promise<IgnoreRule[]> {
+    try {
+      const info = await (await root.getDirectoryHandle('.git')).getDirectoryHandle('info');
+      return parseIgnorePatterns(await (await (await info.getFileHandle('exclude')).getFile()).text(), this.rootPath);
+    } catch {
+      return [];
+    }
+  }
+
+  private async classify(handle: FileSystemFileHandle, path: string): Promise<SourceFile> {
+    const byName = getLanguageForFile(handle.name);
+    try {
+      const file = await handle.getFile();
+      const result: SourceFile = { path, size: file.size, language: null, lines: null };
+      // Only files without an extension can be scripts identified by their shebang
+      if (isExcludedFromLanguageStats(path) || (!byName && handle.name.includes('.'))) return result;
+      if (file.size === 0 || file.size > MAX_FILE_BYTES) return result;
+
+      const content = new Uint8Array(await file.arrayBuffer());
+      const language = byName || getLanguageForShebang(new TextDecoder().decode(content.subarray(0, 128)).split('\n')[0]);
+      if (!language) return result;
+
+      const lines = countLines(content);
+      return isMinified(language, file.size, lines) ? result : { ...result, language, lines };
+    } catch (err) {
+      console.warn(`Could not read ${path}:`, err);
+      return { path, size: 0, language: null, lines: null };
+    }
+  }
+}
@@ -7,11 +7,289 @@ export interface GithubRepo {
   private: boolean;
   html_url: string;
   language: string | null;
-  updated_at: string;
+  updated_at: string; // '' for local repos whose last commit date could not be read
   readme_content?: string;
   default_branch: string;
   isLocal?: boolean;
   localPath?: string;
+  sourceId?: string;
+  archived?: boolean;
+  fork?: boolean;
+  parent?: RepoParent; // upstream of a fork, from the bulk metadata query
+  homepage?: string | null;
+  has_pages?: boolean;
+  // Bulk metadata (REST list fields, refreshed through GraphQL)
+  pushed_at?: string;
+  stargazers_count?: number;
+  forks_count?: number;
+  topics?: string[];
+  license?: { spdx_id: string | null; name: string } | null;
+  languages?: Record<string, number>; // bytes per language
+  languageLines?: Record<string, number>; // lines per language, counted by local scans
+  last_commit_at?: string; // latest commit on the default branch
+  techSignature?: TechSignature; // set by local scans
+  localGit?: LocalGitInfo; // set by local scans
+  cloneSync?: CloneSync; // set by local scans
+  codeMetrics?: CodeMetrics; // set by local scans
+}
+
+/**
+ * What a local scan read from a clone's `.git` directory
+ */
+export interface LocalGitInfo {
+  branch: string | null; // null when HEAD is detached
+  headSha: string | null;
+  lastCommitAt: string | null;
+  recentCommits: number; // commits on the current branch in the last 90 days
+  remotes: GitRemote[];
+  upstream: { remote: string; branch: string; sha: string | null } | null; // tracking branch of the current branch
+  unpushedCommits: number | null; // commits on HEAD after the upstream ref, null if they could not be counted
+}
+
+/**
+ * A file found by the local source walk
+ */
+export interface SourceFile {
+  path: string; // relative to the repository root
+  size: number;
+  language: string | null; // null for non-code files and for vendored, generated or minified code
+  lines: number | null; // counted for code files only
+}
+
+/**
+ * Hard size, test and documentation facts about a repository
+ */
+export interface CodeMetrics {
+  sourceFiles: number; // code files that are not tests
+  sourceBytes: number;
+  linesOfCode: number | null; // null when only a remote file listing was available
+  testFiles: number;
+  testToSourceRatio: number | null; // null without source files
+  ciConfigs: string[]; // e.g. `.github/workflows/ci.yml`, `.gitlab-ci.yml`
+  hasLicense: boolean;
+  hasContributing: boolean;
+  hasDocs: boolean; // a docs folder at the root
+  truncated: boolean; // the file listing was incomplete, so missing tests, CI or CONTRIBUTING may just be unlisted
+  collectedAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Per-language totals of a local repository's source files, without vendored and generated code
+ */
+export interface LanguageStats {
+  bytes: Record<string, number>;
+  lines: Record<string, number>;
+  filesCounted: number;
+  truncated: boolean; // the file limit was reached before the walk finished
+}
+
+/**
+ * A remote from `.git/config`
+ */
+export interface GitRemote {
+  name: string;
+  url: string;
+}
+
+export type CloneSyncStatus = 'synced' | 'ahead' | 'behind' | 'diverged' | 'local-only' | 'unknown';
+
+/**
+ * How a local clone's current branch compares to its GitHub remote
+ */
+export interface CloneSync {
+  status: CloneSyncStatus;
+  remoteFullName: string | null; // null when no remote points at a known GitHub repo
+  aheadBy: number | null;
+  behindBy: number | null;
+  checkedAt: string;
+}
+
+/**
+ * The repository a fork was created from
+ */
+export interface RepoParent {
+  full_name: string;
+  html_url: string;
+  default_branch: string;
+}
+
+/**
+ * Hard build facts read from a repository's manifests and config files
+ */
+export interface TechSignature {
+  detectedFiles: string[];
+  dependencies: string[]; // unique names across all manifests
+  packages?: Dependency[]; // the same dependencies with versions and scope
+  lockfiles?: string[];
+  buildSystem: string;
+  hasDocker?: boolean;
+  baseImages?: string[]; // Dockerfile FROM images
+}
+
+export type DependencyScope = 'prod' | 'dev' | 'build' | 'peer' | 'optional';
+
+/**
+ * A dependency declared in a manifest
+ */
+export interface Dependency {
+  name: string; // Maven and Gradle use `group:artifact`
+  version: string | null; // constraint as declared, e.g. `^18.2.0`; null when unpinned
+  resolved?: string; // exact version from the lockfile
+  scope: DependencyScope;
+  manifest: string; // file name it was declared in
+}
+
+/**
+ * A techSignature read from GitHub, valid for one commit of the default branch
+ */
+export interface RemoteTechSignature extends TechSignature {
+  commitSha: string;
+  collectedAt: number; // Unix timestamp in milliseconds
+}
+
+export type RepoMetadata = Pick<GithubRepo, 'pushed_at' | 'stargazers_count' | 'forks_count' | 'topics' | 'license' | 'languages' | 'last_commit_at' | 'fork' | 'parent'>;
+
+export type RepoSourceKind = 'user' | 'org';
+
+/**
+ * A GitHub account or organization whose repositories are merged into the dashboard.
+ * Each source carries its own token so repos from different owners can be read and managed.
+ */
+export interface RepoSource {
+  id: string;
+  kind: RepoSourceKind;
+  login: string;
+  token: string;
+  apiBaseUrl?: string; // REST base URL for GitHub Enterprise Server; github.com when unset
+  graphqlUrl?: string; // overrides the GraphQL endpoint derived from apiBaseUrl
+}
+
+/**
+ * How a token was issued, from its prefix: classic PAT, fine-grained PAT, OAuth app or GitHub App
+ */
+export type TokenKind = 'classic' | 'fine-grained' | 'oauth' | 'app' | 'unknown';
+
+/**
+ * RepoNexus features that depend on what the token is allowed to do
+ */
+export type RepoCapability = 'privateRepos' | 'delete' | 'archive' | 'issues';
+
+/**
+ * Result of checking a source's token in Settings
+ */
+export interface TokenDiagnostics {
+  kind: TokenKind;
+  login: string;
+  scopes: string[] | null; // from X-OAuth-Scopes; null when GitHub does not report scopes (fine-grained and app tokens)
+  expiresAt: string | null; // ISO date, null for tokens without an expiry
+  capabilities: Record<RepoCapability, boolean | null>; // null when it depends on per-repository permissions
+  checkedAt: number; // Unix timestamp in milliseconds
+}
+
+export type RepoAffiliation = 'owner' | 'collaborator' | 'organization_member';
+
+export interface RepoFetchProgress {
+  page: number;
+  totalPages: number | null; // null until GitHub reports a rel="last" link
+  loaded: number;
+}
+
+export interface LocalScanProgress {
+  foldersVisited: number;
+  reposFound: number;
+  currentPath: string;
+}
+
+export interface RepoTreeEntry {
+  path: string;
+  type: 'blob' | 'tree';
+  size?: number; // bytes, blobs only
+}
+
+export interface CommitActivity {
+  weeklyCommits: number[] | null; // last 52 weeks, oldest first; null while GitHub is still computing the stats
+  commitsLastYear: number | null;
+  activeWeeksLastYear: number | null; // weeks with at least one commit
+  contributorCount: number;
+  lastCommitAuthor: string | null;
+  lastCommitAt: string | null;
+  collectedAt: number; // Unix timestamp in milliseconds; 0 while the weekly stats are pending, so the next sync retries
+}
+
+export interface IssueHealth {
+  openIssues: number;
+  closedIssues: number;
+  openPullRequests: number;
+  oldestOpenPr: { number: number; title: string; url: string; createdAt: string } | null;
+  medianOpenPrAgeDays: number | null; // how long unmerged PRs have been waiting, over the oldest `pullRequestsSampled`
+  pullRequestsSampled?: number; // open PRs the median was taken over, the oldest first
+  unansweredIssues: number; // open issues without a single comment among the newest `issuesSampled`
+  issuesSampled?: number; // newest open issues checked for comments
+  collectedAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * How a fork's default branch compares with its upstream's default branch
+ */
+export interface ForkDivergence {
+  parentFullName: string;
+  aheadBy: number; // commits only in the fork
+  behindBy: number; // upstream commits the fork does not have
+  collectedAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * A non-default branch and how it relates to the default branch
+ */
+export interface BranchInfo {
+  name: string;
+  lastCommitAt: string | null;
+  aheadBy: number; // commits not merged into the default branch
+  behindBy: number;
+  openPr: { number: number; url: string } | null;
+}
+
+export interface BranchInventory {
+  defaultBranch: string;
+  branches: BranchInfo[]; // every branch except the default one
+  truncated: boolean; // true when the repo has more branches than were compared
+  totalBranches?: number; // every branch except the default one, compared or not
+  collectedAt: number; // Unix timestamp in milliseconds
+}
+
+export type CiStatus = 'passing' | 'failing' | 'unknown' | 'none'; // unknown: active workflows, but no run decides the status
+
+export interface WorkflowSummary {
+  name: string;
+  path: string; // e.g. .github/workflows/ci.yml
+  state: string; // active, disabled_manually, ...
+  lastRun: {
+    conclusion: string | null; // success, failure, cancelled, skipped, ...
+    url: string;
+    createdAt: string;
+  } | null; // newest finished run on the default branch, if any
+}
+
+/**
+ * GitHub Actions workflows of a repository and how their latest finished runs on the default branch ended
+ */
+export interface CiHealth {
+  status: CiStatus;
+  workflows: WorkflowSummary[];
+  collectedAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Hard data collected per repository, passed to the AI next to the README
+ */
+export interface RepoForensics {
+  commitActivity?: CommitActivity;
+  issueHealth?: IssueHealth;
+  techSignature?: RemoteTechSignature;
+  forkDivergence?: ForkDivergence;
+  branchInventory?: BranchInventory;
+  ciHealth?: CiHealth;
+  codeMetrics?: CodeMetrics; // from the remote file tree
 }
 
 export interface AnalysisResult {
@@ -25,6 +303,101 @@ export interface AnalysisResult {
   fullReadme?: string;
   detailedDescription?: string;
   inventorySummary?: string;
+  immediateAction?: ImmediateAction;
+  architecturalPattern?: string;
+  completionGap?: string[];
+  techDebtIndex?: string[];
+  filedIssues?: FiledIssue[];
+}
+
+export type FindingKind = 'completionGap' | 'techDebtIndex';
+
+/**
+ * A GitHub issue created from one assessment finding
+ */
+export interface FiledIssue {
+  kind: FindingKind;
+  finding: string; // the original finding text
+  number: number;
+  title: string;
+  url: string;
+  filedAt: number; // Unix timestamp in milliseconds
+}
+
+export type ImmediateAction = 'Archive' | 'Refactor' | 'Polish' | 'Publish';
+
+export type RegistryActionType = 'Archive' | 'Merge' | 'Develop' | 'Maintain';
+
+/**
+ * One repository's entry in the Master Nexus Strategy's Action Registry
+ */
+export interface RepoRegistryEntry {
+  name: string;
+  fullName?: string; // missing in strategies generated before entries were matched by full name
+  status: string;
+  action: string; // free text
+  actionType?: RegistryActionType; // the structured decision behind `action`
+  priority: string;
+  reasoning: string;
+}
+
+/**
+ * Description, topics and homepage as they are (or should be) published on GitHub
+ */
+export interface PublishableMetadata {
+  description: string;
+  topics: string[];
+  homepage: string;
+}
+
+export type ArchiveOutcomeStatus = 'archived' | 'unarchived' | 'failed';
+
+/**
+ * Result of an archive or unarchive attempt, kept so the Action Registry can show what happened to each repo
+ */
+export interface ArchiveOutcome {
+  repoId: number;
+  fullName: string;
+  status: ArchiveOutcomeStatus;
+  error?: string;
+  at: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Snapshot saved to a download right before a repository is deleted
+ */
+export interface DeletionBackup {
+  repo: GithubRepo;
+  analysis: AnalysisResult | null;
+  forensics: RepoForensics;
+  archiveFile: string; // name of the downloaded zip of the default branch
+  savedAt: number; // Unix timestamp in milliseconds
+}
+
+export type DeletionTrigger = 'manual' | 'quarantine';
+
+/**
+ * One entry of the persistent deletion audit log
+ */
+export interface DeletionAuditEntry {
+  repoId: number;
+  fullName: string;
+  sourceId?: string;
+  trigger: DeletionTrigger;
+  status: 'deleted' | 'failed';
+  error?: string;
+  backupFile: string; // name of the downloaded backup file
+  at: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * A repository archived and queued for deletion once it has stayed archived for the quarantine period
+ */
+export interface QuarantineEntry {
+  repoId: number;
+  fullName: string;
+  sourceId?: string;
+  quarantinedAt: number; // Unix timestamp in milliseconds
 }
 
 export enum View {
@@ -32,5 +405,6 @@ export enum View {
   REPO_DETAIL = 'REPO_DETAIL',
   SETTINGS = 'SETTINGS',
   INVENTORY = 'INVENTORY',
-  PORTFOLIO = 'PORTFOLIO'
+  PORTFOLIO = 'PORTFOLIO',
+  BRANCHES = 'BRANCHES'
 }